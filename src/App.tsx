@@ -7,10 +7,13 @@ import { BrowserRouter, Routes, Route, Link } from "react-router-dom";
 import Index from "./pages/Index";
 import AddressManager from "./pages/AddressManager";
 import CamtConverter from "./pages/CamtConverter";
+import PaymentReconciliation from "./pages/PaymentReconciliation";
 import EntryAnalysis from "./pages/EntryAnalysis";
 import DebFactManager from "./pages/DebFactManager";
 import BankStatementConverter from "./pages/BankStatementConverter";
+import ExportHistory from "./pages/ExportHistory";
 import NotFound from "./pages/NotFound";
+import MandateSwitcher from "./components/MandateSwitcher";
 
 const queryClient = new QueryClient();
 
@@ -43,6 +46,15 @@ const App = () => (
                   <Link to="/bank-converter" className="text-gray-600 hover:text-blue-600">
                     PDF → Excel
                   </Link>
+                  <Link to="/reconciliation" className="text-gray-600 hover:text-blue-600">
+                    Rapprochement
+                  </Link>
+                  <Link to="/export-history" className="text-gray-600 hover:text-blue-600">
+                    Historique
+                  </Link>
+                </div>
+                <div className="flex items-center">
+                  <MandateSwitcher />
                 </div>
               </div>
             </div>
@@ -55,6 +67,8 @@ const App = () => (
             <Route path="/entry-analysis" element={<EntryAnalysis />} />
             <Route path="/DebFactManager" element={<DebFactManager />} />
             <Route path="/bank-converter" element={<BankStatementConverter />} />
+            <Route path="/reconciliation" element={<PaymentReconciliation />} />
+            <Route path="/export-history" element={<ExportHistory />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
           
@@ -0,0 +1,111 @@
+import React, { ChangeEvent, useRef, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "@/components/ui/use-toast";
+import { FileText, Scale } from 'lucide-react';
+import { useMandate } from '@/hooks/use-mandate';
+import { BankBalanceControl as BalanceControl } from '@/utils/excelUtils';
+import { readStatementBalances } from '@/utils/camtUtils';
+
+interface BankBalanceControlProps {
+  value: BalanceControl | null;
+  onChange: (control: BalanceControl | null) => void;
+}
+
+// Accepts 1'234.50, 1234,50 and -200
+const parseBalance = (text: string): number | null => {
+  const cleaned = text.replace(/['\s]/g, '').replace(',', '.');
+  if (cleaned === '') return null;
+  const value = parseFloat(cleaned);
+  return isNaN(value) ? null : value;
+};
+
+const BankBalanceControl: React.FC<BankBalanceControlProps> = ({ value, onChange }) => {
+  const { activeMandate } = useMandate();
+  const [account, setAccount] = useState(value?.account ?? activeMandate.bankAccount);
+  const [opening, setOpening] = useState(value ? String(value.opening) : '');
+  const [closing, setClosing] = useState(value ? String(value.closing) : '');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleApply = () => {
+    const openingValue = parseBalance(opening);
+    const closingValue = parseBalance(closing);
+    if (!account.trim() || openingValue === null || closingValue === null) {
+      toast({
+        title: "Contrôle incomplet",
+        description: "Indiquez le compte bancaire, le solde d'ouverture et le solde de clôture.",
+        variant: "destructive",
+      });
+      return;
+    }
+    onChange({ account: account.trim(), opening: openingValue, closing: closingValue });
+  };
+
+  // Balances of a camt.053 statement (OPBD/PRCD and CLBD)
+  const handleStatement = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const balances = readStatementBalances(await file.text());
+      if (balances.opening === null || balances.closing === null) {
+        throw new Error("Le relevé ne contient pas de solde d'ouverture et de clôture");
+      }
+      setOpening(String(balances.opening));
+      setClosing(String(balances.closing));
+      onChange({ account: account.trim(), opening: balances.opening, closing: balances.closing });
+      toast({
+        title: "Soldes importés",
+        description: `${file.name}${balances.iban ? ` (${balances.iban})` : ''} : ouverture ${balances.opening}, clôture ${balances.closing}.`,
+      });
+    } catch (err) {
+      toast({
+        title: "Relevé illisible",
+        description: (err as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center text-sm font-medium text-gray-900">
+        <Scale className="mr-2 h-4 w-4 text-blue-600" />
+        Contrôle du solde bancaire
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="balance-account" className="text-xs">Compte bancaire</Label>
+          <Input id="balance-account" value={account} onChange={(e) => setAccount(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="balance-opening" className="text-xs">Solde d'ouverture</Label>
+          <Input id="balance-opening" value={opening} onChange={(e) => setOpening(e.target.value)} placeholder="0.00" />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="balance-closing" className="text-xs">Solde de clôture attendu</Label>
+          <Input id="balance-closing" value={closing} onChange={(e) => setClosing(e.target.value)} placeholder="0.00" />
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" onClick={handleApply}>
+          Contrôler
+        </Button>
+        <input type="file" ref={fileInputRef} onChange={handleStatement} accept=".xml" className="hidden" />
+        <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()}>
+          <FileText className="mr-2 h-4 w-4" />
+          Lire les soldes d'un relevé camt.053
+        </Button>
+        {value && (
+          <Button size="sm" variant="ghost" onClick={() => onChange(null)}>
+            Retirer le contrôle
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BankBalanceControl;
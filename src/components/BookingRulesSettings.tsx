@@ -0,0 +1,262 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from "@/components/ui/dialog";
+import { toast } from "@/components/ui/use-toast";
+import { Plus, Trash2, Wand2 } from 'lucide-react';
+import { useMandate } from '@/hooks/use-mandate';
+import {
+  BookingDirection,
+  BookingRule,
+  createBookingRule,
+  invalidRulePatterns,
+  rulesWithoutBankAccount
+} from '@/utils/bookingRuleUtils';
+
+interface BookingRulesSettingsProps {
+  onSaved?: (rules: BookingRule[]) => void;
+}
+
+const DIRECTION_OPTIONS: { value: BookingDirection; label: string }[] = [
+  { value: 'both', label: 'Entrées et sorties' },
+  { value: 'in', label: 'Entrées' },
+  { value: 'out', label: 'Sorties' }
+];
+
+// Amounts are edited as text and read on save
+type RuleDraft = Omit<BookingRule, 'minAmount' | 'maxAmount'> & { minAmount: string; maxAmount: string };
+
+const parseAmountInput = (text: string): number | null => {
+  const cleaned = text.replace(/['\s]/g, '').replace(',', '.');
+  if (cleaned === '') return null;
+  const value = parseFloat(cleaned);
+  return isNaN(value) ? null : value;
+};
+
+const BookingRulesSettings: React.FC<BookingRulesSettingsProps> = ({ onSaved }) => {
+  const { activeMandate, updateActiveMandate } = useMandate();
+  const [open, setOpen] = useState(false);
+  const [rules, setRules] = useState<RuleDraft[]>([]);
+
+  const toDraft = (rule: BookingRule): RuleDraft => ({
+    ...rule,
+    minAmount: rule.minAmount === null ? '' : String(rule.minAmount),
+    maxAmount: rule.maxAmount === null ? '' : String(rule.maxAmount)
+  });
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) {
+      setRules(activeMandate.bookingRules.map(rule => toDraft({ ...createBookingRule(), ...rule })));
+    }
+    setOpen(isOpen);
+  };
+
+  const updateRule = (index: number, changes: Partial<RuleDraft>) => {
+    setRules(prev => prev.map((rule, i) => i === index ? { ...rule, ...changes } : rule));
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    setRules(prev => {
+      const next = [...prev];
+      const [moved] = next.splice(index, 1);
+      next.splice(index + offset, 0, moved);
+      return next;
+    });
+  };
+
+  const handleSave = () => {
+    const cleaned: BookingRule[] = rules
+      .map(rule => ({
+        ...rule,
+        minAmount: parseAmountInput(rule.minAmount),
+        maxAmount: parseAmountInput(rule.maxAmount),
+        name: rule.name.trim(),
+        descriptionPattern: rule.descriptionPattern.trim(),
+        iban: rule.iban.trim(),
+        counterparty: rule.counterparty.trim(),
+        reference: rule.reference.trim()
+      }))
+      .filter(rule => rule.compte.trim() || rule.contrepartie.trim() || rule.codeTva.trim() || rule.texte1.trim());
+
+    const invalid = invalidRulePatterns(cleaned);
+    if (invalid.length > 0) {
+      toast({
+        title: "Expressions invalides",
+        description: `Règles concernées : ${invalid.join(", ")}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const withoutBank = rulesWithoutBankAccount(cleaned, activeMandate.bankAccount);
+    if (withoutBank.length > 0) {
+      toast({
+        title: "Compte bancaire absent",
+        description: `Avec deux comptes, l'un doit être le compte bancaire ${activeMandate.bankAccount}. Règles concernées : ${withoutBank.join(", ")}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    updateActiveMandate({ bookingRules: cleaned });
+    onSaved?.(cleaned);
+    setOpen(false);
+
+    toast({
+      title: "Règles enregistrées",
+      description: `${cleaned.length} règle(s) pour le mandat « ${activeMandate.name} ».`,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center">
+          <Wand2 className="mr-2 h-4 w-4" />
+          Règles de comptabilisation
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Règles de comptabilisation</DialogTitle>
+          <DialogDescription>
+            La première règle dont toutes les conditions renseignées correspondent au mouvement est appliquée.
+            Le compte indiqué est comptabilisé contre le compte bancaire du mandat ({activeMandate.bankAccount}), avec le code TVA :
+            débité pour les sorties, crédité pour les entrées. Si deux comptes sont indiqués, l'un doit être le compte bancaire.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {rules.map((rule, index) => (
+            <div key={index} className="border rounded-md p-3 space-y-3">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={rule.name}
+                  onChange={(e) => updateRule(index, { name: e.target.value })}
+                  placeholder="Nom de la règle"
+                  className="flex-1"
+                />
+                <Button variant="ghost" size="sm" onClick={() => moveRule(index, -1)} disabled={index === 0} title="Monter">
+                  ↑
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => moveRule(index, 1)}
+                  disabled={index === rules.length - 1}
+                  title="Descendre"
+                >
+                  ↓
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setRules(prev => prev.filter((_, i) => i !== index))}>
+                  <Trash2 className="h-4 w-4 text-red-600" />
+                </Button>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                <div className="space-y-1">
+                  <Label className="text-xs">Description (expression régulière)</Label>
+                  <Input
+                    value={rule.descriptionPattern}
+                    onChange={(e) => updateRule(index, { descriptionPattern: e.target.value })}
+                    placeholder="loyer|miete"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">IBAN de la contrepartie</Label>
+                  <Input value={rule.iban} onChange={(e) => updateRule(index, { iban: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Nom de la contrepartie</Label>
+                  <Input value={rule.counterparty} onChange={(e) => updateRule(index, { counterparty: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Début de la référence (QR/SCOR)</Label>
+                  <Input
+                    value={rule.reference}
+                    onChange={(e) => updateRule(index, { reference: e.target.value })}
+                    placeholder="N° client en tête de référence"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Sens</Label>
+                  <Select value={rule.direction} onValueChange={(value: BookingDirection) => updateRule(index, { direction: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DIRECTION_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Montant minimum</Label>
+                  <Input
+                    value={rule.minAmount}
+                    onChange={(e) => updateRule(index, { minAmount: e.target.value })}
+                    placeholder="0.00"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Montant maximum</Label>
+                  <Input
+                    value={rule.maxAmount}
+                    onChange={(e) => updateRule(index, { maxAmount: e.target.value })}
+                    placeholder="0.00"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2 bg-gray-50 rounded-md p-2">
+                <div className="space-y-1">
+                  <Label className="text-xs">Compte</Label>
+                  <Input value={rule.compte} onChange={(e) => updateRule(index, { compte: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Contrepartie</Label>
+                  <Input value={rule.contrepartie} onChange={(e) => updateRule(index, { contrepartie: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Code TVA</Label>
+                  <Input value={rule.codeTva} onChange={(e) => updateRule(index, { codeTva: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Texte1</Label>
+                  <Input
+                    value={rule.texte1}
+                    onChange={(e) => updateRule(index, { texte1: e.target.value })}
+                    placeholder="Description du mouvement"
+                  />
+                </div>
+              </div>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={() => setRules(prev => [...prev, toDraft(createBookingRule())])}>
+            <Plus className="mr-2 h-4 w-4" />
+            Ajouter une règle
+          </Button>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleSave}>
+            Enregistrer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BookingRulesSettings;
@@ -0,0 +1,81 @@
+import React, { useRef, ChangeEvent } from 'react';
+import * as XLSX from 'xlsx';
+import { Button } from "@/components/ui/button";
+import { toast } from "@/components/ui/use-toast";
+import { Upload, X } from 'lucide-react';
+import { ChartAccount, parseChartWorkbook, parseChartXml } from '@/utils/accountUtils';
+
+interface ChartOfAccountsListProps {
+  accounts: ChartAccount[];
+  onChange: (accounts: ChartAccount[]) => void;
+}
+
+const ChartOfAccountsList: React.FC<ChartOfAccountsListProps> = ({ accounts, onChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const list = file.name.toLowerCase().endsWith('.xml')
+        ? parseChartXml(await file.text())
+        : parseChartWorkbook(XLSX.read(await file.arrayBuffer(), { type: 'array' }));
+
+      if (list.length === 0) {
+        throw new Error('Aucun compte trouvé (numéro de compte et libellé attendus)');
+      }
+
+      onChange(list);
+      toast({
+        title: "Plan comptable chargé",
+        description: `${list.length} comptes importés depuis ${file.name}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Erreur",
+        description: error instanceof Error ? error.message : "Impossible de lire le plan comptable.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="bg-gray-50 border rounded-md p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium text-gray-900">Plan comptable</p>
+          <p className="text-xs text-gray-600">
+            Export Abacus (Excel ou XML AbaConnect), enregistré pour le mandat actif
+          </p>
+        </div>
+        <input
+          type="file"
+          ref={fileInputRef}
+          onChange={handleFileChange}
+          accept=".xlsx,.xls,.xml"
+          className="hidden"
+        />
+        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="mr-2 h-4 w-4" />
+          Charger un plan
+        </Button>
+      </div>
+
+      {accounts.length > 0 ? (
+        <div className="flex items-center justify-between text-xs text-gray-700">
+          <span>{accounts.length} comptes chargés, les comptes et contreparties absents seront signalés.</span>
+          <Button variant="ghost" size="sm" onClick={() => onChange([])}>
+            <X className="mr-1 h-3 w-3" />
+            Retirer
+          </Button>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">Aucun plan chargé, le résumé classe les comptes selon les plages habituelles.</p>
+      )}
+    </div>
+  );
+};
+
+export default ChartOfAccountsList;
@@ -0,0 +1,183 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "@/components/ui/use-toast";
+import { Columns3, Trash2 } from 'lucide-react';
+import { useMandate } from '@/hooks/use-mandate';
+import { ExcelRow, requiredHeaders, sourceColumn, validateHeaders } from '@/utils/excelUtils';
+import {
+  applyColumnMapping,
+  ColumnMapping,
+  findSavedMapping,
+  mappableFields,
+  suggestColumnMapping
+} from '@/utils/columnMappingUtils';
+
+interface ColumnMappingStepProps {
+  data: ExcelRow[];
+  onApply: (mappedData: ExcelRow[]) => void;
+  onCancel: () => void;
+}
+
+// Radix selects do not accept an empty value
+const NO_COLUMN = '__none__';
+
+const rowHeaders = (data: ExcelRow[]): string[] => {
+  return Array.from(new Set(data.flatMap(row => Object.keys(row)))).filter(header => header !== sourceColumn);
+};
+
+const ColumnMappingStep: React.FC<ColumnMappingStepProps> = ({ data, onApply, onCancel }) => {
+  const { activeMandate, updateActiveMandate } = useMandate();
+  const headers = useMemo(() => rowHeaders(data), [data]);
+  const savedMappings = activeMandate.columnMappings;
+
+  // A saved mapping of the mandate matching the file wins over the suggestion
+  const [initialSaved] = useState(() => findSavedMapping(headers, savedMappings));
+  const [mapping, setMapping] = useState<ColumnMapping>(() => initialSaved?.mapping ?? suggestColumnMapping(headers));
+  const [saveName, setSaveName] = useState(initialSaved?.name ?? '');
+
+  const sampleValue = (header: string) => {
+    const row = data.find(r => r[header] !== undefined && r[header] !== null && r[header] !== '');
+    return row ? String(row[header]) : '';
+  };
+
+  const updateField = (field: string, header: string) => {
+    setMapping(prev => ({ ...prev, [field]: header === NO_COLUMN ? '' : header }));
+  };
+
+  const loadSaved = (name: string) => {
+    const saved = savedMappings.find(m => m.name === name);
+    if (!saved) return;
+    // Columns absent from this file are left unmapped
+    setMapping(Object.fromEntries(
+      Object.entries(saved.mapping).map(([field, header]) => [field, headers.includes(header) ? header : ''])
+    ));
+    setSaveName(saved.name);
+  };
+
+  const deleteSaved = (name: string) => {
+    updateActiveMandate({ columnMappings: savedMappings.filter(m => m.name !== name) });
+  };
+
+  const handleApply = () => {
+    const cleaned: ColumnMapping = Object.fromEntries(Object.entries(mapping).filter(([, header]) => header));
+    const mappedData = applyColumnMapping(data, cleaned);
+    const missing = validateHeaders(rowHeaders(mappedData));
+
+    if (missing.length > 0) {
+      toast({
+        title: "Correspondance incomplète",
+        description: `Associez une colonne aux champs : ${missing.join(", ")}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const name = saveName.trim();
+    if (name) {
+      updateActiveMandate({
+        columnMappings: [...savedMappings.filter(m => m.name !== name), { name, mapping: cleaned }]
+      });
+    }
+    onApply(mappedData);
+  };
+
+  return (
+    <div className="mt-6 border rounded-md p-4 space-y-4 animate-fade-in">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-sm font-medium flex items-center">
+            <Columns3 className="mr-2 h-4 w-4 text-blue-600" />
+            Correspondance des colonnes
+          </h3>
+          <p className="text-xs text-gray-600 mt-1">
+            Les intitulés du fichier ne correspondent pas au format attendu. Vérifiez les colonnes proposées
+            pour chaque champ, les champs marqués * sont obligatoires.
+          </p>
+        </div>
+        {savedMappings.length > 0 && (
+          <div className="flex items-center gap-1">
+            <Select onValueChange={loadSaved}>
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Correspondance enregistrée" />
+              </SelectTrigger>
+              <SelectContent>
+                {savedMappings.map(saved => (
+                  <SelectItem key={saved.name} value={saved.name}>{saved.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {savedMappings.some(saved => saved.name === saveName.trim()) && (
+              <Button variant="ghost" size="sm" onClick={() => deleteSaved(saveName.trim())} title="Supprimer la correspondance">
+                <Trash2 className="h-4 w-4 text-red-600" />
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="border rounded-md max-h-96 overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Champ</TableHead>
+              <TableHead>Colonne du fichier</TableHead>
+              <TableHead>Exemple</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {mappableFields.map(field => (
+              <TableRow key={field}>
+                <TableCell className="text-sm font-medium whitespace-nowrap">
+                  {field}{requiredHeaders.includes(field) && <span className="text-red-600"> *</span>}
+                </TableCell>
+                <TableCell className="p-1">
+                  <Select value={mapping[field] || NO_COLUMN} onValueChange={(value) => updateField(field, value)}>
+                    <SelectTrigger className="h-8 w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_COLUMN}>— Aucune —</SelectItem>
+                      {headers.map(header => (
+                        <SelectItem key={header} value={header}>{header}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell className="text-xs text-gray-500 truncate max-w-48">
+                  {mapping[field] ? sampleValue(mapping[field]) : ''}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="mappingName" className="text-xs">Enregistrer pour le mandat « {activeMandate.name} » (facultatif)</Label>
+          <Input
+            id="mappingName"
+            value={saveName}
+            onChange={(e) => setSaveName(e.target.value)}
+            placeholder="ex. Relevé client Müller"
+            className="w-72"
+          />
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={onCancel}>
+            Annuler
+          </Button>
+          <Button onClick={handleApply}>
+            Appliquer
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingStep;
@@ -0,0 +1,80 @@
+import React, { useRef, ChangeEvent } from 'react';
+import * as XLSX from 'xlsx';
+import { Button } from "@/components/ui/button";
+import { toast } from "@/components/ui/use-toast";
+import { Upload, X } from 'lucide-react';
+import { CostCentre, costCentreColumns, parseCostCentreWorkbook } from '@/utils/costCentreUtils';
+
+interface CostCentreListProps {
+  costCentres: CostCentre[];
+  onChange: (costCentres: CostCentre[]) => void;
+}
+
+const CostCentreList: React.FC<CostCentreListProps> = ({ costCentres, onChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+      const list = parseCostCentreWorkbook(workbook);
+
+      if (list.length === 0) {
+        throw new Error('Aucun centre de coût trouvé (numéro attendu en première colonne)');
+      }
+
+      onChange(list);
+      toast({
+        title: "Centres de coûts chargés",
+        description: `${list.length} centres de coûts importés depuis ${file.name}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Erreur",
+        description: error instanceof Error ? error.message : "Impossible de lire la liste des centres de coûts.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="bg-gray-50 border rounded-md p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium text-gray-900">Centres de coûts / projets</p>
+          <p className="text-xs text-gray-600">
+            Colonnes optionnelles : {costCentreColumns.map(column => column.input).join(', ')}
+          </p>
+        </div>
+        <input
+          type="file"
+          ref={fileInputRef}
+          onChange={handleFileChange}
+          accept=".xlsx,.xls"
+          className="hidden"
+        />
+        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="mr-2 h-4 w-4" />
+          Charger une liste
+        </Button>
+      </div>
+
+      {costCentres.length > 0 ? (
+        <div className="flex items-center justify-between text-xs text-gray-700">
+          <span>{costCentres.length} centres de coûts (KST) valides chargés pour ce mandat, les autres valeurs seront signalées.</span>
+          <Button variant="ghost" size="sm" onClick={() => onChange([])}>
+            <X className="mr-1 h-3 w-3" />
+            Retirer
+          </Button>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">Aucune liste chargée, seul le format des centres de coûts est contrôlé.</p>
+      )}
+    </div>
+  );
+};
+
+export default CostCentreList;
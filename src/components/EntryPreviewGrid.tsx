@@ -0,0 +1,162 @@
+import React, { useState, KeyboardEvent } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChevronLeft, ChevronRight, Redo2, Undo2 } from 'lucide-react';
+import { EditableColumn, editableColumns, ExcelRow, sourceColumn } from '@/utils/excelUtils';
+import { ChartAccount, findAccount } from '@/utils/accountUtils';
+
+interface EntryPreviewGridProps {
+  data: ExcelRow[];
+  accounts?: ChartAccount[];
+  onEdit: (rowIndex: number, column: EditableColumn, value: string) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+const ROWS_PER_PAGE = 50;
+
+const formatCell = (value: unknown): string => (value === undefined || value === null ? '' : String(value));
+
+interface EditableCellProps {
+  value: unknown;
+  align?: 'left' | 'right';
+  invalid?: boolean;
+  onCommit: (value: string) => void;
+}
+
+// Edited locally and committed on blur or Enter, so each correction is one undo step
+const EditableCell: React.FC<EditableCellProps> = ({ value, align = 'left', invalid = false, onCommit }) => {
+  const [text, setText] = useState(formatCell(value));
+
+  const commit = () => {
+    if (text !== formatCell(value)) onCommit(text);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') e.currentTarget.blur();
+    if (e.key === 'Escape') {
+      setText(formatCell(value));
+      e.currentTarget.blur();
+    }
+  };
+
+  return (
+    <Input
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={handleKeyDown}
+      className={`h-7 px-1 text-xs ${align === 'right' ? 'text-right' : ''} ${invalid ? 'border-red-400 bg-red-50' : ''}`}
+    />
+  );
+};
+
+const EntryPreviewGrid: React.FC<EntryPreviewGridProps> = ({ data, accounts = [], onEdit, onUndo, onRedo, canUndo, canRedo }) => {
+  const [page, setPage] = useState(0);
+
+  const pageCount = Math.max(1, Math.ceil(data.length / ROWS_PER_PAGE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const firstRow = currentPage * ROWS_PER_PAGE;
+  const rows = data.slice(firstRow, firstRow + ROWS_PER_PAGE);
+
+  const columnWidth = (column: EditableColumn) => (column === 'Texte1' ? 'min-w-48' : 'min-w-20');
+
+  // Name of the account below its number, unknown accounts flagged once a chart is loaded
+  const isAccountColumn = (column: EditableColumn) => column === 'Compte' || column === 'Contrepartie';
+  const accountInfo = (value: unknown) => {
+    if (accounts.length === 0 || value === undefined || value === null || value === '') return null;
+    const account = findAccount(value, accounts);
+    return { name: account ? account.name : 'Compte inconnu', invalid: !account };
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-gray-600">
+          Cliquez sur une cellule pour la corriger, la TVA et le résumé sont recalculés automatiquement.
+        </p>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={onUndo} disabled={!canUndo} title="Annuler">
+            <Undo2 className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={onRedo} disabled={!canRedo} title="Rétablir">
+            <Redo2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="border rounded-md max-h-[32rem] overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-12">N°</TableHead>
+              <TableHead>Date</TableHead>
+              {editableColumns.map(column => (
+                <TableHead key={column}>{column}</TableHead>
+              ))}
+              <TableHead>DC</TableHead>
+              <TableHead className="text-right">Taux TVA</TableHead>
+              <TableHead className="text-right">Montant TVA</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row, i) => {
+              const rowIndex = firstRow + i;
+              return (
+                <TableRow key={rowIndex}>
+                  <TableCell className="text-xs font-medium" title={row[sourceColumn]}>
+                    {row["N° enregistrement"]}
+                    {row["Position coll."] > 0 && <span className="text-gray-400">.{row["Position coll."]}</span>}
+                  </TableCell>
+                  <TableCell className="text-xs whitespace-nowrap">{row["Date"]}</TableCell>
+                  {editableColumns.map(column => {
+                    const info = isAccountColumn(column) ? accountInfo(row[column]) : null;
+                    return (
+                      <TableCell key={column} className={`p-1 ${columnWidth(column)}`}>
+                        {/* Keyed on the value so undo/redo resets the local text */}
+                        <EditableCell
+                          key={formatCell(row[column])}
+                          value={row[column]}
+                          align={column === 'Montant' ? 'right' : 'left'}
+                          invalid={info?.invalid}
+                          onCommit={(value) => onEdit(rowIndex, column, value)}
+                        />
+                        {info && (
+                          <div className={`text-[10px] truncate max-w-28 ${info.invalid ? 'text-red-600' : 'text-gray-500'}`} title={info.name}>
+                            {info.name}
+                          </div>
+                        )}
+                      </TableCell>
+                    );
+                  })}
+                  <TableCell className="text-xs">{row["DC"]}</TableCell>
+                  <TableCell className="text-xs text-right">{row["Taux TVA"] ? `${row["Taux TVA"]}%` : ''}</TableCell>
+                  <TableCell className="text-xs text-right">{row["Montant TVA"] ? Number(row["Montant TVA"]).toFixed(2) : ''}</TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-end gap-2 text-xs text-gray-600">
+          <span>
+            Lignes {firstRow + 1}–{Math.min(firstRow + ROWS_PER_PAGE, data.length)} sur {data.length}
+          </span>
+          <Button variant="outline" size="sm" onClick={() => setPage(currentPage - 1)} disabled={currentPage === 0}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setPage(currentPage + 1)} disabled={currentPage >= pageCount - 1}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EntryPreviewGrid;
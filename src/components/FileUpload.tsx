@@ -3,16 +3,51 @@ import React, { useState, useRef, DragEvent, ChangeEvent } from 'react';
 import * as XLSX from 'xlsx';
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { validateHeaders, requiredHeaders } from '@/utils/excelUtils';
+import { Checkbox } from "@/components/ui/checkbox";
+import { validateHeaders, requiredHeaders, readSheetRows, ExcelRow } from '@/utils/excelUtils';
 import { Separator } from '@/components/ui/separator';
 
 interface FileUploadProps {
-  onFileLoaded: (workbook: XLSX.WorkBook, jsonData: any[]) => void;
+  onFileLoaded: (jsonData: ExcelRow[], sources: string[]) => void;
 }
 
+interface LoadedWorkbook {
+  fileName: string;
+  workbook: XLSX.WorkBook;
+}
+
+// "fichier › feuille" key of a selectable sheet
+const sheetKey = (fileName: string, sheetName: string) => `${fileName} › ${sheetName}`;
+
+const sheetHeaders = (workbook: XLSX.WorkBook, sheetName: string): string[] => {
+  const rows = XLSX.utils.sheet_to_json(workbook.Sheets[sheetName], { header: 1 }) as unknown[][];
+  return (rows[0] || []).map(header => String(header ?? ''));
+};
+
+const readWorkbook = (file: File): Promise<XLSX.WorkBook> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        if (!e.target?.result) {
+          throw new Error('Erreur de lecture du fichier');
+        }
+        resolve(XLSX.read(new Uint8Array(e.target.result as ArrayBuffer), { type: 'array', cellNF: true }));
+      } catch (err) {
+        reject(err);
+      }
+    };
+    reader.onerror = () => reject(new Error('Erreur de lecture du fichier'));
+    reader.readAsArrayBuffer(file);
+  });
+};
+
 const FileUpload: React.FC<FileUploadProps> = ({ onFileLoaded }) => {
   const [isDragging, setIsDragging] = useState(false);
-  const [fileName, setFileName] = useState<string | null>(null);
+  const [fileNames, setFileNames] = useState<string[]>([]);
+  // Workbooks waiting for the sheet selection, when one of them has several sheets
+  const [pendingWorkbooks, setPendingWorkbooks] = useState<LoadedWorkbook[]>([]);
+  const [selectedSheets, setSelectedSheets] = useState<string[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -29,65 +64,76 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileLoaded }) => {
     setIsDragging(false);
   };
 
-  const processFile = (file: File) => {
+  // Concatenate the selected sheets, every row keeping its file, sheet and line as source
+  const importSheets = (loaded: LoadedWorkbook[], selection: string[]) => {
+    const sheets = loaded.flatMap(({ fileName, workbook }) =>
+      workbook.SheetNames
+        .filter(sheetName => selection.includes(sheetKey(fileName, sheetName)))
+        .map(sheetName => ({ fileName, workbook, sheetName }))
+    );
+
+    if (sheets.length === 0) {
+      setError('Aucune feuille sélectionnée');
+      return;
+    }
+
+    // Other headers are mapped to the required columns in the next step
+    const jsonData = sheets.flatMap(({ fileName, workbook, sheetName }) => readSheetRows(workbook, sheetName, fileName));
+    setPendingWorkbooks([]);
+    onFileLoaded(jsonData, sheets.map(({ fileName, sheetName }) => sheetKey(fileName, sheetName)));
+  };
+
+  const processFiles = async (files: File[]) => {
     setIsLoading(true);
     setError(null);
+    setPendingWorkbooks([]);
     
-    if (!file) {
+    if (files.length === 0) {
       setError('Aucun fichier sélectionné');
       setIsLoading(false);
       return;
     }
 
-    if (!file.name.match(/\.(xlsx|xls)$/)) {
-      setError('Seuls les fichiers Excel (.xlsx, .xls) sont acceptés');
+    const rejected = files.filter(file => !file.name.match(/\.(xlsx|xls)$/));
+    if (rejected.length > 0) {
+      setError(`Seuls les fichiers Excel (.xlsx, .xls) sont acceptés : ${rejected.map(file => file.name).join(", ")}`);
       setIsLoading(false);
       return;
     }
 
-    setFileName(file.name);
+    setFileNames(files.map(file => file.name));
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        if (!e.target?.result) {
-          throw new Error('Erreur de lecture du fichier');
-        }
-        
-        const data = new Uint8Array(e.target.result as ArrayBuffer);
-        const workbook = XLSX.read(data, { type: 'array' });
-        
+    try {
+      const loaded: LoadedWorkbook[] = [];
+      for (const file of files) {
+        const workbook = await readWorkbook(file);
         if (workbook.SheetNames.length === 0) {
-          throw new Error('Fichier Excel vide');
+          throw new Error(`Fichier Excel vide : ${file.name}`);
         }
+        loaded.push({ fileName: file.name, workbook });
+      }
 
-        const firstSheet = workbook.Sheets[workbook.SheetNames[0]];
-        const headers = XLSX.utils.sheet_to_json(firstSheet, { header: 1 })[0] as string[];
-        const jsonData = XLSX.utils.sheet_to_json(firstSheet);
-        
-        const missingHeaders = validateHeaders(headers);
-        
-        if (missingHeaders.length > 0) {
-          setError(`Colonnes manquantes : ${missingHeaders.join(", ")}`);
-          setIsLoading(false);
-          return;
-        }
-        
-        onFileLoaded(workbook, jsonData);
-        setIsLoading(false);
-      } catch (err) {
-        setError('Erreur de traitement du fichier Excel');
-        console.error(err);
-        setIsLoading(false);
+      // Sheets with the required columns are preselected, the first sheet otherwise
+      const preselected = loaded.flatMap(({ fileName, workbook }) => {
+        const valid = workbook.SheetNames.filter(sheetName => validateHeaders(sheetHeaders(workbook, sheetName)).length === 0);
+        return (valid.length > 0 ? valid : [workbook.SheetNames[0]]).map(sheetName => sheetKey(fileName, sheetName));
+      });
+
+      if (loaded.every(({ workbook }) => workbook.SheetNames.length === 1)) {
+        importSheets(loaded, preselected);
+      } else {
+        setPendingWorkbooks(loaded);
+        setSelectedSheets(preselected);
       }
-    };
-    
-    reader.onerror = () => {
-      setError('Erreur de lecture du fichier');
-      setIsLoading(false);
-    };
-    
-    reader.readAsArrayBuffer(file);
+    } catch (err) {
+      setError('Erreur de traitement du fichier Excel');
+      console.error(err);
+    }
+    setIsLoading(false);
+  };
+
+  const toggleSheet = (key: string, checked: boolean) => {
+    setSelectedSheets(prev => checked ? [...prev, key] : prev.filter(selected => selected !== key));
   };
 
   const handleDrop = (e: DragEvent<HTMLDivElement>) => {
@@ -96,14 +142,15 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileLoaded }) => {
     setIsDragging(false);
     
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      processFile(e.dataTransfer.files[0]);
+      processFiles(Array.from(e.dataTransfer.files));
     }
   };
 
   const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      processFile(e.target.files[0]);
+      processFiles(Array.from(e.target.files));
     }
+    e.target.value = '';
   };
 
   const handleButtonClick = () => {
@@ -126,6 +173,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileLoaded }) => {
             ref={fileInputRef}
             onChange={handleFileChange}
             accept=".xlsx,.xls"
+            multiple
             className="hidden"
             id="fileInput"
           />
@@ -149,7 +197,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileLoaded }) => {
             </div>
 
             <div>
-              <p className="text-lg font-medium">Déposez votre fichier Excel ici</p>
+              <p className="text-lg font-medium">Déposez vos fichiers Excel ici</p>
               <p className="text-sm text-gray-500 mt-1">ou</p>
             </div>
 
@@ -171,19 +219,47 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileLoaded }) => {
           </div>
         </div>
 
-        {fileName && (
-          <div className="mt-4 p-3 bg-gray-50 rounded flex items-center justify-between animate-fade-in">
-            <div className="flex items-center">
-              <svg 
-                xmlns="http://www.w3.org/2000/svg" 
-                className="h-5 w-5 text-green-500 mr-2" 
-                viewBox="0 0 20 20" 
-                fill="currentColor"
-              >
-                <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
-              </svg>
-              <span className="text-sm font-medium truncate max-w-xs">{fileName}</span>
-            </div>
+        {fileNames.length > 0 && (
+          <div className="mt-4 p-3 bg-gray-50 rounded space-y-1 animate-fade-in">
+            {fileNames.map(fileName => (
+              <div key={fileName} className="flex items-center">
+                <svg 
+                  xmlns="http://www.w3.org/2000/svg" 
+                  className="h-5 w-5 text-green-500 mr-2" 
+                  viewBox="0 0 20 20" 
+                  fill="currentColor"
+                >
+                  <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
+                </svg>
+                <span className="text-sm font-medium truncate max-w-xs">{fileName}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {pendingWorkbooks.length > 0 && (
+          <div className="mt-4 p-3 border rounded space-y-3 animate-fade-in">
+            <p className="text-sm font-medium">Feuilles à importer</p>
+            {pendingWorkbooks.map(({ fileName, workbook }) => (
+              <div key={fileName} className="space-y-1">
+                <p className="text-xs text-gray-600">{fileName}</p>
+                {workbook.SheetNames.map(sheetName => {
+                  const key = sheetKey(fileName, sheetName);
+                  return (
+                    <label key={key} className="flex items-center space-x-2 text-sm">
+                      <Checkbox
+                        checked={selectedSheets.includes(key)}
+                        onCheckedChange={(checked) => toggleSheet(key, checked === true)}
+                      />
+                      <span>{sheetName}</span>
+                    </label>
+                  );
+                })}
+              </div>
+            ))}
+            <Button type="button" size="sm" onClick={() => importSheets(pendingWorkbooks, selectedSheets)}>
+              Importer {selectedSheets.length} feuille{selectedSheets.length > 1 ? 's' : ''}
+            </Button>
           </div>
         )}
 
@@ -214,6 +290,9 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileLoaded }) => {
               </span>
             ))}
           </div>
+          <p className="text-xs text-blue-600 mt-2">
+            D'autres intitulés (Konto, Betrag, Libellé, Amount…) peuvent être associés à ces colonnes après l'import.
+          </p>
         </div>
       </CardContent>
     </Card>
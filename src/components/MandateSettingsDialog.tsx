@@ -0,0 +1,226 @@
+import React, { useRef, useState, ChangeEvent } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from "@/components/ui/dialog";
+import { toast } from "@/components/ui/use-toast";
+import { Download, Plus, Settings2, Trash2, Upload } from 'lucide-react';
+import { useMandate } from '@/hooks/use-mandate';
+import { createMandate, exportMandates, MandateProfile, parseMandatesJson } from '@/utils/mandateUtils';
+
+// "id=Nom" per line, as edited in the textarea
+const formatUserMapping = (mapping: Record<string, string>): string => {
+  return Object.entries(mapping).map(([id, name]) => `${id}=${name}`).join('\n');
+};
+
+const parseUserMapping = (text: string): Record<string, string> => {
+  const mapping: Record<string, string> = {};
+  text.split('\n').forEach(line => {
+    const separator = line.indexOf('=');
+    if (separator <= 0) return;
+    const id = line.substring(0, separator).trim();
+    const name = line.substring(separator + 1).trim();
+    if (id && name) mapping[id] = name;
+  });
+  return mapping;
+};
+
+const MandateSettingsDialog: React.FC = () => {
+  const { profiles, activeMandate, saveMandate, deleteMandate, importMandates } = useMandate();
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<MandateProfile>(activeMandate);
+  const [userMappingText, setUserMappingText] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const editProfile = (profile: MandateProfile) => {
+    setDraft(profile);
+    setUserMappingText(formatUserMapping(profile.userMapping));
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) editProfile(activeMandate);
+    setOpen(isOpen);
+  };
+
+  const updateDraft = (changes: Partial<MandateProfile>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleSave = () => {
+    if (!draft.name.trim()) {
+      toast({
+        title: "Nom requis",
+        description: "Donnez un nom au mandat avant de l'enregistrer.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    saveMandate({ ...draft, name: draft.name.trim(), userMapping: parseUserMapping(userMappingText) }, true);
+    setOpen(false);
+
+    toast({
+      title: "Mandat enregistré",
+      description: `Le mandat « ${draft.name.trim()} » est actif.`,
+    });
+  };
+
+  const handleNew = () => {
+    editProfile(createMandate('Nouveau mandat', {
+      vatSettings: { ...activeMandate.vatSettings },
+      userMapping: { ...activeMandate.userMapping }
+    }));
+  };
+
+  const handleDelete = () => {
+    deleteMandate(draft.id);
+    setOpen(false);
+
+    toast({
+      title: "Mandat supprimé",
+      description: `Le mandat « ${draft.name} » a été supprimé.`,
+    });
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportMandates(profiles)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'Mandats_ExcelToAbacus.json';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseMandatesJson(await file.text());
+      importMandates(imported);
+      toast({
+        title: "Mandats importés",
+        description: `${imported.length} mandat(s) ajouté(s) depuis ${file.name}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Erreur d'import",
+        description: error instanceof Error ? error.message : "Fichier JSON invalide.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const isExisting = profiles.some(profile => profile.id === draft.id);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" title="Gérer les mandats">
+          <Settings2 className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isExisting ? `Mandat « ${activeMandate.name} »` : 'Nouveau mandat'}</DialogTitle>
+          <DialogDescription>
+            Valeurs par défaut utilisées par tous les convertisseurs pour ce client, enregistrées dans ce navigateur.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-1 sm:col-span-2">
+            <Label htmlFor="mandate-name">Nom du mandat</Label>
+            <Input id="mandate-name" value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="mandant-number">N° mandant (F11)</Label>
+            <Input id="mandant-number" value={draft.mandantNumber} onChange={(e) => updateDraft({ mandantNumber: e.target.value.trim() })} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="collective-account">Compte collectif débiteurs</Label>
+            <Input id="collective-account" value={draft.collectiveAccount} onChange={(e) => updateDraft({ collectiveAccount: e.target.value.trim() })} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="bank-account">Compte bancaire</Label>
+            <Input id="bank-account" value={draft.bankAccount} onChange={(e) => updateDraft({ bankAccount: e.target.value.trim() })} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="supplier-start">Premier n° fournisseur</Label>
+            <Input
+              id="supplier-start"
+              type="number"
+              value={draft.supplierStartNumber}
+              onChange={(e) => updateDraft({ supplierStartNumber: parseInt(e.target.value, 10) || 0 })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="customer-start">Premier n° client</Label>
+            <Input
+              id="customer-start"
+              type="number"
+              value={draft.customerStartNumber}
+              onChange={(e) => updateDraft({ customerStartNumber: parseInt(e.target.value, 10) || 0 })}
+            />
+          </div>
+          <div className="space-y-1 sm:col-span-2">
+            <Label htmlFor="user-mapping">Utilisateurs Abacus (un par ligne : id=Nom)</Label>
+            <Textarea
+              id="user-mapping"
+              rows={6}
+              value={userMappingText}
+              onChange={(e) => setUserMappingText(e.target.value)}
+              className="font-mono text-xs"
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={handleNew}>
+            <Plus className="mr-2 h-4 w-4" />
+            Nouveau mandat
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleExport}>
+            <Download className="mr-2 h-4 w-4" />
+            Exporter (JSON)
+          </Button>
+          <input type="file" ref={fileInputRef} onChange={handleImport} accept=".json" className="hidden" />
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="mr-2 h-4 w-4" />
+            Importer (JSON)
+          </Button>
+          {isExisting && profiles.length > 1 && (
+            <Button variant="outline" size="sm" onClick={handleDelete} className="text-red-600">
+              <Trash2 className="mr-2 h-4 w-4" />
+              Supprimer
+            </Button>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Annuler
+          </Button>
+          <Button onClick={handleSave}>
+            Enregistrer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MandateSettingsDialog;
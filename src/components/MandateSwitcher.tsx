@@ -0,0 +1,30 @@
+import React from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Briefcase } from 'lucide-react';
+import { useMandate } from '@/hooks/use-mandate';
+import MandateSettingsDialog from '@/components/MandateSettingsDialog';
+
+const MandateSwitcher: React.FC = () => {
+  const { profiles, activeMandate, selectMandate } = useMandate();
+
+  return (
+    <div className="flex items-center space-x-1">
+      <Briefcase className="h-4 w-4 text-gray-500" />
+      <Select value={activeMandate.id} onValueChange={selectMandate}>
+        <SelectTrigger className="w-48 h-9 text-sm">
+          <SelectValue placeholder="Mandat" />
+        </SelectTrigger>
+        <SelectContent>
+          {profiles.map(profile => (
+            <SelectItem key={profile.id} value={profile.id}>
+              {profile.name}{profile.mandantNumber ? ` (${profile.mandantNumber})` : ''}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <MandateSettingsDialog />
+    </div>
+  );
+};
+
+export default MandateSwitcher;
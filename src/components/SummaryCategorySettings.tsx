@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from "@/components/ui/dialog";
+import { toast } from "@/components/ui/use-toast";
+import { ListTree, Plus, Trash2 } from 'lucide-react';
+import { useMandate } from '@/hooks/use-mandate';
+import {
+  DEFAULT_SUMMARY_CATEGORIES,
+  invalidAccountTokens,
+  OTHER_CATEGORY_NAME,
+  SummaryCategoryDefinition
+} from '@/utils/summaryUtils';
+
+interface SummaryCategorySettingsProps {
+  onSaved?: (categories: SummaryCategoryDefinition[]) => void;
+}
+
+const SummaryCategorySettings: React.FC<SummaryCategorySettingsProps> = ({ onSaved }) => {
+  const { activeMandate, updateActiveMandate } = useMandate();
+  const [open, setOpen] = useState(false);
+  const [categories, setCategories] = useState<SummaryCategoryDefinition[]>([]);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) {
+      setCategories(activeMandate.summaryCategories.map(category => ({ ...category })));
+    }
+    setOpen(isOpen);
+  };
+
+  const updateCategory = (index: number, changes: Partial<SummaryCategoryDefinition>) => {
+    setCategories(prev => prev.map((category, i) => i === index ? { ...category, ...changes } : category));
+  };
+
+  const moveCategory = (index: number, offset: number) => {
+    setCategories(prev => {
+      const next = [...prev];
+      const [moved] = next.splice(index, 1);
+      next.splice(index + offset, 0, moved);
+      return next;
+    });
+  };
+
+  const handleSave = () => {
+    const cleaned = categories
+      .map(category => ({ name: category.name.trim(), accounts: category.accounts.trim() }))
+      .filter(category => category.name);
+
+    const invalid = cleaned.flatMap(category => invalidAccountTokens(category.accounts));
+    if (invalid.length > 0) {
+      toast({
+        title: "Comptes non reconnus",
+        description: `Valeurs invalides : ${invalid.join(", ")}. Utilisez 1000-1999, 2299 ou classe 5.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    updateActiveMandate({ summaryCategories: cleaned });
+    onSaved?.(cleaned);
+    setOpen(false);
+
+    toast({
+      title: "Catégories enregistrées",
+      description: `${cleaned.length} catégories pour le mandat « ${activeMandate.name} ».`,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center">
+          <ListTree className="mr-2 h-4 w-4" />
+          Catégories
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Catégories du résumé</DialogTitle>
+          <DialogDescription>
+            Comptes séparés par des points-virgules : plages (1000-1999), comptes (2299) ou classes (classe 5).
+            Chaque écriture est comptée dans la première catégorie correspondant à son compte, sinon dans « {OTHER_CATEGORY_NAME} ».
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {categories.map((category, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                value={category.name}
+                onChange={(e) => updateCategory(index, { name: e.target.value })}
+                placeholder="Nom"
+                className="w-44"
+              />
+              <Input
+                value={category.accounts}
+                onChange={(e) => updateCategory(index, { accounts: e.target.value })}
+                placeholder="1000-1999; classe 5"
+                className="flex-1"
+              />
+              <Button variant="ghost" size="sm" onClick={() => moveCategory(index, -1)} disabled={index === 0} title="Monter">
+                ↑
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => moveCategory(index, 1)}
+                disabled={index === categories.length - 1}
+                title="Descendre"
+              >
+                ↓
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setCategories(prev => prev.filter((_, i) => i !== index))}>
+                <Trash2 className="h-4 w-4 text-red-600" />
+              </Button>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={() => setCategories(prev => [...prev, { name: '', accounts: '' }])}>
+            <Plus className="mr-2 h-4 w-4" />
+            Ajouter une catégorie
+          </Button>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => setCategories(DEFAULT_SUMMARY_CATEGORIES.map(category => ({ ...category })))}>
+            Réinitialiser
+          </Button>
+          <Button onClick={handleSave}>
+            Enregistrer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SummaryCategorySettings;
@@ -8,17 +8,23 @@ interface TransformationSummaryProps {
 }
 
 const TransformationSummary: React.FC<TransformationSummaryProps> = ({ summaryData }) => {
-  const { totalTransactions, encaissements, decaissements } = summaryData;
-  const encaissementPercent = Math.round((encaissements.count / totalTransactions) * 100);
-  const decaissementPercent = Math.round((decaissements.count / totalTransactions) * 100);
+  const { totalTransactions, collectiveEntries, vatWarnings, duplicates, balanceCheck, currencies, categories } = summaryData;
+  const foreignCurrencies = Object.keys(currencies).filter(iso => iso !== 'CHF');
+  const percentOf = (count: number) => totalTransactions > 0 ? Math.round((count / totalTransactions) * 100) : 0;
 
-  // Format monetary values
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('fr-CH', {
-      style: 'currency',
-      currency: 'CHF',
-      minimumFractionDigits: 2
-    }).format(amount);
+  // Format monetary values; a "Devise" that is not an ISO code falls back to a plain number,
+  // the validation report lists the row
+  const formatCurrency = (amount: number, currency: string = 'CHF') => {
+    try {
+      return new Intl.NumberFormat('fr-CH', {
+        style: 'currency',
+        currency,
+        minimumFractionDigits: 2
+      }).format(amount);
+    } catch {
+      const number = new Intl.NumberFormat('fr-CH', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(amount);
+      return `${number} ${currency}`;
+    }
   };
 
   return (
@@ -51,112 +57,135 @@ const TransformationSummary: React.FC<TransformationSummaryProps> = ({ summaryDa
           </div>
         </div>
 
-        <div className="space-y-3">
-          <div className="flex items-start justify-between">
-            <div>
-              <p className="text-sm font-medium flex items-center">
-                <span className="text-blue-600 mr-1">📥</span> Encaissements
-              </p>
-              <div className="flex items-baseline">
-                <p className="text-xl font-bold">{encaissements.count}</p>
-                <p className="text-sm text-gray-500 ml-2">
-                  {formatCurrency(encaissements.total)}
-                </p>
+        {collectiveEntries.count > 0 && (
+          <div className="bg-gray-50 rounded-md p-3">
+            <p className="text-sm font-medium">
+              🧾 {collectiveEntries.count} écriture{collectiveEntries.count > 1 ? 's' : ''} collective{collectiveEntries.count > 1 ? 's' : ''}
+              <span className="text-gray-500 font-normal ml-2">({collectiveEntries.lineCount} lignes)</span>
+            </p>
+            {collectiveEntries.unbalanced.length > 0 && (
+              <div className="mt-2 space-y-1">
+                {collectiveEntries.unbalanced.map(entry => (
+                  <div key={entry.entryNumber} className="flex justify-between text-xs text-red-700">
+                    <span>Écriture {entry.entryNumber} déséquilibrée</span>
+                    <span>Différence {formatCurrency(entry.difference)}</span>
+                  </div>
+                ))}
               </div>
+            )}
+          </div>
+        )}
+
+        {vatWarnings.length > 0 && (
+          <div className="bg-amber-50 border border-amber-200 rounded-md p-3">
+            <p className="text-sm font-medium text-amber-800 mb-2">
+              ⚠️ {vatWarnings.length} ligne{vatWarnings.length > 1 ? 's' : ''} avec un code TVA à vérifier avant le téléchargement
+            </p>
+            <div className="space-y-1 max-h-48 overflow-y-auto">
+              {vatWarnings.map((warning, index) => (
+                <div key={index} className="flex justify-between text-xs text-amber-700">
+                  <span>Écriture {warning.rowNumber} ({warning.date || 'sans date'})</span>
+                  <span className="text-right ml-4">{warning.message}</span>
+                </div>
+              ))}
             </div>
-            <div className="bg-blue-100 text-blue-800 text-xs font-medium px-2 py-1 rounded">
-              {encaissementPercent}%
+          </div>
+        )}
+
+        {balanceCheck && (
+          <div className={`rounded-md p-3 border ${balanceCheck.difference === 0 ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'}`}>
+            <p className={`text-sm font-medium mb-2 ${balanceCheck.difference === 0 ? 'text-green-800' : 'text-red-800'}`}>
+              {balanceCheck.difference === 0
+                ? `✓ Le compte ${balanceCheck.account} concorde avec le solde de clôture`
+                : `✗ Écart de ${formatCurrency(balanceCheck.difference)} sur le compte ${balanceCheck.account}`}
+            </p>
+            <div className="space-y-1 text-xs text-gray-700">
+              <div className="flex justify-between"><span>Solde d'ouverture</span><span>{formatCurrency(balanceCheck.opening)}</span></div>
+              <div className="flex justify-between">
+                <span>Mouvements ({balanceCheck.movementCount} lignes)</span>
+                <span>{formatCurrency(balanceCheck.movements)}</span>
+              </div>
+              <div className="flex justify-between font-medium"><span>Solde calculé</span><span>{formatCurrency(balanceCheck.computedClosing)}</span></div>
+              <div className="flex justify-between"><span>Solde de clôture attendu</span><span>{formatCurrency(balanceCheck.closing)}</span></div>
             </div>
           </div>
-          
-          <Progress value={encaissementPercent} className="h-2" />
-          
-          <div className="bg-gray-50 rounded-md p-3 mt-3">
-            <p className="text-xs font-medium text-gray-700 mb-2">Détails par compte:</p>
+        )}
+
+        {duplicates.length > 0 && (
+          <div className="bg-orange-50 border border-orange-200 rounded-md p-3">
+            <p className="text-sm font-medium text-orange-800 mb-2">
+              ⧉ {duplicates.length} doublon{duplicates.length > 1 ? 's' : ''} possible{duplicates.length > 1 ? 's' : ''} (même date, compte et montant)
+            </p>
+            <div className="space-y-1 max-h-48 overflow-y-auto">
+              {duplicates.map(duplicate => (
+                <div key={duplicate.rowIndex} className="flex justify-between text-xs text-orange-700">
+                  <span>
+                    Écriture {duplicate.rowNumber} ({duplicate.date}, {formatCurrency(duplicate.montant)})
+                    {duplicate.kind === 'exact' ? ' identique' : ' semblable'} à {duplicate.matchedWith}
+                  </span>
+                  <span className="text-right ml-4 truncate max-w-[45%]" title={duplicate.matchedText}>{duplicate.texte}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {foreignCurrencies.length > 0 && (
+          <div className="bg-gray-50 rounded-md p-3">
+            <p className="text-xs font-medium text-gray-700 mb-2">Répartition par devise:</p>
             <div className="space-y-1">
-              {Object.entries(encaissements.details).map(([compte, value]) => (
-                <div key={compte} className="flex justify-between text-sm">
-                  <span>💰 Compte {compte}:</span>
+              {Object.entries(currencies).map(([iso, value]) => (
+                <div key={iso} className="flex justify-between text-sm">
+                  <span>💱 {iso}:</span>
                   <div className="font-medium flex flex-col items-end">
                     <span>{value.count} transactions</span>
-                    <span className="text-xs text-gray-600">{formatCurrency(value.total)}</span>
+                    <span className="text-xs text-gray-600">
+                      {iso !== 'CHF' && `${formatCurrency(value.totalME, iso)} = `}{formatCurrency(value.total)}
+                    </span>
                   </div>
                 </div>
               ))}
             </div>
           </div>
-        </div>
+        )}
 
-        <div className="space-y-3">
-          <div className="flex items-start justify-between">
-            <div>
-              <p className="text-sm font-medium flex items-center">
-                <span className="text-blue-600 mr-1">📤</span> Décaissements
-              </p>
-              <div className="flex items-baseline">
-                <p className="text-xl font-bold">{decaissements.count}</p>
-                <p className="text-sm text-gray-500 ml-2">
-                  {formatCurrency(decaissements.total)}
-                </p>
+        {categories.map((category, index) => (
+          <div key={index} className="space-y-3">
+            <div className="flex items-start justify-between">
+              <div>
+                <p className="text-sm font-medium">{category.name}</p>
+                <div className="flex items-baseline">
+                  <p className="text-xl font-bold">{category.count}</p>
+                  <p className="text-sm text-gray-500 ml-2">
+                    {formatCurrency(category.total)}
+                  </p>
+                </div>
+              </div>
+              <div className="bg-blue-100 text-blue-800 text-xs font-medium px-2 py-1 rounded">
+                {percentOf(category.count)}%
               </div>
             </div>
-            <div className="bg-blue-100 text-blue-800 text-xs font-medium px-2 py-1 rounded">
-              {decaissementPercent}%
-            </div>
-          </div>
-          
-          <Progress value={decaissementPercent} className="h-2" />
-          
-          <div className="grid gap-2 grid-cols-1 md:grid-cols-3 mt-3">
-            <Card className="bg-gray-50 border-0">
-              <CardContent className="p-3">
-                <div className="flex items-center justify-between mb-1">
-                  <p className="text-xs font-medium text-gray-700">Salaires</p>
-                  <div className="text-right">
-                    <span className="text-sm font-bold">{decaissements.salaires.count}</span>
-                    <p className="text-xs text-gray-600">{formatCurrency(decaissements.salaires.amount)}</p>
-                  </div>
-                </div>
-                <Progress 
-                  value={decaissements.salaires.count > 0 ? (decaissements.salaires.count / decaissements.count) * 100 : 0} 
-                  className="h-1" 
-                />
-              </CardContent>
-            </Card>
-            
-            <Card className="bg-gray-50 border-0">
-              <CardContent className="p-3">
-                <div className="flex items-center justify-between mb-1">
-                  <p className="text-xs font-medium text-gray-700">Achats directs</p>
-                  <div className="text-right">
-                    <span className="text-sm font-bold">{decaissements.achatsDirects.count}</span>
-                    <p className="text-xs text-gray-600">{formatCurrency(decaissements.achatsDirects.amount)}</p>
-                  </div>
-                </div>
-                <Progress 
-                  value={decaissements.achatsDirects.count > 0 ? (decaissements.achatsDirects.count / decaissements.count) * 100 : 0} 
-                  className="h-1" 
-                />
-              </CardContent>
-            </Card>
-            
-            <Card className="bg-gray-50 border-0">
-              <CardContent className="p-3">
-                <div className="flex items-center justify-between mb-1">
-                  <p className="text-xs font-medium text-gray-700">Achats indirects</p>
-                  <div className="text-right">
-                    <span className="text-sm font-bold">{decaissements.achatsIndirects.count}</span>
-                    <p className="text-xs text-gray-600">{formatCurrency(decaissements.achatsIndirects.amount)}</p>
-                  </div>
+
+            <Progress value={percentOf(category.count)} className="h-2" />
+
+            {category.count > 0 && (
+              <div className="bg-gray-50 rounded-md p-3 mt-3">
+                <p className="text-xs font-medium text-gray-700 mb-2">Détails par compte:</p>
+                <div className="space-y-1">
+                  {Object.entries(category.details).map(([compte, value]) => (
+                    <div key={compte} className="flex justify-between text-sm">
+                      <span>Compte {compte}{value.name && ` ${value.name}`}:</span>
+                      <div className="font-medium flex flex-col items-end">
+                        <span>{value.count} transactions</span>
+                        <span className="text-xs text-gray-600">{formatCurrency(value.total)}</span>
+                      </div>
+                    </div>
+                  ))}
                 </div>
-                <Progress 
-                  value={decaissements.achatsIndirects.count > 0 ? (decaissements.achatsIndirects.count / decaissements.count) * 100 : 0} 
-                  className="h-1" 
-                />
-              </CardContent>
-            </Card>
+              </div>
+            )}
           </div>
-        </div>
+        ))}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,101 @@
+import React from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ExcelRow, requiredHeaders, sourceColumn } from '@/utils/excelUtils';
+import { ValidationIssue, ValidationReport } from '@/utils/validationUtils';
+
+interface ValidationReportTableProps {
+  data: ExcelRow[];
+  report: ValidationReport;
+}
+
+const MAX_DISPLAYED_ROWS = 100;
+
+const ValidationReportTable: React.FC<ValidationReportTableProps> = ({ data, report }) => {
+  const { issues, errorCount, warningCount, rowsWithIssues } = report;
+
+  if (issues.length === 0) {
+    return (
+      <div className="bg-green-50 border border-green-100 rounded-md p-3 text-sm text-green-700">
+        ✓ Aucune anomalie détectée dans les {data.length} lignes importées.
+      </div>
+    );
+  }
+
+  // Required columns first, then any other column an issue points to (D/C, Débit, Crédit...)
+  const columns = [
+    ...requiredHeaders,
+    ...Array.from(new Set(issues.map(issue => issue.column))).filter(column => !requiredHeaders.includes(column))
+  ];
+
+  const issuesByCell = new Map<string, ValidationIssue[]>();
+  issues.forEach(issue => {
+    const key = `${issue.rowIndex}|${issue.column}`;
+    issuesByCell.set(key, [...(issuesByCell.get(key) || []), issue]);
+  });
+
+  const cellClassName = (cellIssues: ValidationIssue[] | undefined) => {
+    if (!cellIssues) return '';
+    return cellIssues.some(issue => issue.severity === 'error')
+      ? 'bg-red-100 text-red-800'
+      : 'bg-amber-100 text-amber-800';
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2 text-sm">
+        <span className="bg-red-50 text-red-700 border border-red-200 px-2 py-1 rounded">
+          {errorCount} erreur{errorCount > 1 ? 's' : ''}
+        </span>
+        <span className="bg-amber-50 text-amber-700 border border-amber-200 px-2 py-1 rounded">
+          {warningCount} avertissement{warningCount > 1 ? 's' : ''}
+        </span>
+        <span className="bg-gray-50 text-gray-700 border border-gray-200 px-2 py-1 rounded">
+          {rowsWithIssues.length} ligne{rowsWithIssues.length > 1 ? 's' : ''} concernée{rowsWithIssues.length > 1 ? 's' : ''}
+        </span>
+      </div>
+
+      <div className="border rounded-md max-h-96 overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-20">Ligne</TableHead>
+              {columns.map(header => (
+                <TableHead key={header}>{header}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rowsWithIssues.slice(0, MAX_DISPLAYED_ROWS).map(rowIndex => (
+              <TableRow key={rowIndex}>
+                <TableCell className="font-medium text-xs whitespace-nowrap">{data[rowIndex]?.[sourceColumn] ?? rowIndex + 2}</TableCell>
+                {columns.map(header => {
+                  const cellIssues = issuesByCell.get(`${rowIndex}|${header}`);
+                  return (
+                    <TableCell
+                      key={header}
+                      className={`text-xs ${cellClassName(cellIssues)}`}
+                      title={cellIssues?.map(issue => issue.message).join('\n')}
+                    >
+                      <div className="max-w-40 truncate">{String(data[rowIndex]?.[header] ?? '')}</div>
+                      {cellIssues && (
+                        <div className="text-[10px] mt-0.5">{cellIssues[0].message}</div>
+                      )}
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {rowsWithIssues.length > MAX_DISPLAYED_ROWS && (
+        <p className="text-xs text-gray-500">
+          ... et {rowsWithIssues.length - MAX_DISPLAYED_ROWS} autres lignes concernées
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ValidationReportTable;
@@ -0,0 +1,295 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from "@/components/ui/dialog";
+import { toast } from "@/components/ui/use-toast";
+import { Plus, Settings, Trash2 } from 'lucide-react';
+import { useMandate } from '@/hooks/use-mandate';
+import {
+  DEFAULT_VAT_CODES,
+  DEFAULT_VAT_SETTINGS,
+  getVatKind,
+  loadVatCodes,
+  saveVatCodes,
+  VatCodeDefinition,
+  VatKind,
+  VatRatePeriod,
+  VatSettings,
+  VatSettlementMethod
+} from '@/utils/vatUtils';
+
+interface VatCodeSettingsProps {
+  onSaved?: (codes: VatCodeDefinition[]) => void;
+}
+
+const VatCodeSettings: React.FC<VatCodeSettingsProps> = ({ onSaved }) => {
+  const { activeMandate, updateActiveMandate } = useMandate();
+  const [open, setOpen] = useState(false);
+  const [codes, setCodes] = useState<VatCodeDefinition[]>([]);
+  const [settings, setSettings] = useState<VatSettings>(DEFAULT_VAT_SETTINGS);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) {
+      // Work on a copy so that cancelling leaves the stored registry untouched
+      setCodes(JSON.parse(JSON.stringify(loadVatCodes())));
+      setSettings(activeMandate.vatSettings);
+    }
+    setOpen(isOpen);
+  };
+
+  const updateSettings = (changes: Partial<VatSettings>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+  };
+
+  const updateCode = (codeIndex: number, changes: Partial<VatCodeDefinition>) => {
+    setCodes(prev => prev.map((code, i) => i === codeIndex ? { ...code, ...changes } : code));
+  };
+
+  const updatePeriod = (codeIndex: number, periodIndex: number, changes: Partial<VatRatePeriod>) => {
+    const periods = codes[codeIndex].periods.map((period, i) => i === periodIndex ? { ...period, ...changes } : period);
+    updateCode(codeIndex, { periods });
+  };
+
+  const addPeriod = (codeIndex: number) => {
+    updateCode(codeIndex, { periods: [...codes[codeIndex].periods, { validFrom: '', validTo: '', rate: 0 }] });
+  };
+
+  const removePeriod = (codeIndex: number, periodIndex: number) => {
+    updateCode(codeIndex, { periods: codes[codeIndex].periods.filter((_, i) => i !== periodIndex) });
+  };
+
+  const addCode = () => {
+    setCodes(prev => [...prev, { code: '', description: '', kind: 'input', periods: [{ validFrom: '', validTo: '', rate: 0 }] }]);
+  };
+
+  const removeCode = (codeIndex: number) => {
+    setCodes(prev => prev.filter((_, i) => i !== codeIndex));
+  };
+
+  const handleSave = () => {
+    const cleaned = codes
+      .map(code => ({ ...code, code: code.code.trim() }))
+      .filter(code => code.code);
+
+    const codeValues = cleaned.map(code => code.code);
+    const duplicates = codeValues.filter((code, i) => codeValues.indexOf(code) !== i);
+    if (duplicates.length > 0) {
+      toast({
+        title: "Codes TVA en double",
+        description: `Les codes suivants sont définis plusieurs fois : ${Array.from(new Set(duplicates)).join(", ")}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    saveVatCodes(cleaned);
+    updateActiveMandate({ vatSettings: settings });
+    onSaved?.(cleaned);
+    setOpen(false);
+
+    toast({
+      title: "Codes TVA enregistrés",
+      description: `${cleaned.length} codes TVA sauvegardés dans ce navigateur.`,
+    });
+  };
+
+  const handleReset = () => {
+    setCodes(JSON.parse(JSON.stringify(DEFAULT_VAT_CODES)));
+    setSettings(DEFAULT_VAT_SETTINGS);
+
+    toast({
+      title: "Codes TVA réinitialisés",
+      description: "Les taux suisses par défaut sont restaurés, enregistrez pour les appliquer.",
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center">
+          <Settings className="mr-2 h-4 w-4" />
+          Codes TVA
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Paramètres et codes TVA</DialogTitle>
+          <DialogDescription>
+            Taux en % par période de validité. Le taux appliqué est celui valable à la date de l'écriture ou de la facture.
+            Les codes de TVA due sont comptabilisés sur le compte TVA due, les autres sur le compte d'impôt préalable.
+            Les comptes et méthodes sont propres au mandat « {activeMandate.name} ».
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="bg-gray-50 border rounded-md p-3 grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs">Méthode de décompte</Label>
+            <Select
+              value={settings.settlementMethod}
+              onValueChange={(value) => updateSettings({ settlementMethod: value as VatSettlementMethod })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="effective">Méthode effective</SelectItem>
+                <SelectItem value="netTaxRate">Taux de la dette fiscale nette (sans impôt préalable)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Méthode TVA (F11)</Label>
+            <Select
+              value={String(settings.taxMethod)}
+              onValueChange={(value) => updateSettings({ taxMethod: parseInt(value, 10) })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">1 – Contre-prestations convenues</SelectItem>
+                <SelectItem value="2">2 – Contre-prestations reçues</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Compte impôt préalable</Label>
+            <Input
+              value={settings.inputTaxAccount}
+              onChange={(e) => updateSettings({ inputTaxAccount: e.target.value.trim() })}
+              placeholder="1170"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Compte TVA due</Label>
+            <Input
+              value={settings.outputTaxAccount}
+              onChange={(e) => updateSettings({ outputTaxAccount: e.target.value.trim() })}
+              placeholder="2200"
+            />
+          </div>
+          {settings.settlementMethod === 'netTaxRate' && (
+            <div className="space-y-1">
+              <Label className="text-xs">Taux de la dette fiscale nette (%)</Label>
+              <Input
+                type="number"
+                step="0.1"
+                value={settings.netTaxRate || ''}
+                onChange={(e) => updateSettings({ netTaxRate: parseFloat(e.target.value) || 0 })}
+                placeholder="Taux légal si vide"
+                title="Appliqué au montant brut des codes de TVA due imposables"
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          {codes.map((code, codeIndex) => (
+            <div key={codeIndex} className="border rounded-md p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={code.code}
+                  onChange={(e) => updateCode(codeIndex, { code: e.target.value })}
+                  placeholder="Code"
+                  className="w-20"
+                />
+                <Input
+                  value={code.description}
+                  onChange={(e) => updateCode(codeIndex, { description: e.target.value })}
+                  placeholder="Description"
+                  className="flex-1"
+                />
+                <Select
+                  value={getVatKind(code)}
+                  onValueChange={(value) => updateCode(codeIndex, { kind: value as VatKind })}
+                >
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="input">Impôt préalable</SelectItem>
+                    <SelectItem value="output">TVA due</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={code.account || ''}
+                  onChange={(e) => updateCode(codeIndex, { account: e.target.value.trim() || undefined })}
+                  placeholder="Compte"
+                  title="Compte TVA propre à ce code (sinon celui des paramètres)"
+                  className="w-24"
+                />
+                <Button variant="ghost" size="icon" onClick={() => removeCode(codeIndex)} title="Supprimer le code">
+                  <Trash2 className="h-4 w-4 text-red-600" />
+                </Button>
+              </div>
+
+              {code.periods.map((period, periodIndex) => (
+                <div key={periodIndex} className="flex items-center gap-2 pl-4 text-sm">
+                  <span className="text-gray-500 w-6">du</span>
+                  <Input
+                    type="date"
+                    value={period.validFrom}
+                    onChange={(e) => updatePeriod(codeIndex, periodIndex, { validFrom: e.target.value })}
+                    className="w-40"
+                  />
+                  <span className="text-gray-500 w-6">au</span>
+                  <Input
+                    type="date"
+                    value={period.validTo}
+                    onChange={(e) => updatePeriod(codeIndex, periodIndex, { validTo: e.target.value })}
+                    className="w-40"
+                  />
+                  <Input
+                    type="number"
+                    step="0.1"
+                    value={period.rate}
+                    onChange={(e) => updatePeriod(codeIndex, periodIndex, { rate: parseFloat(e.target.value) || 0 })}
+                    className="w-24"
+                  />
+                  <span className="text-gray-500">%</span>
+                  <Button variant="ghost" size="icon" onClick={() => removePeriod(codeIndex, periodIndex)} title="Supprimer la période">
+                    <Trash2 className="h-4 w-4 text-gray-500" />
+                  </Button>
+                </div>
+              ))}
+
+              <Button variant="link" size="sm" className="pl-4" onClick={() => addPeriod(codeIndex)}>
+                <Plus className="mr-1 h-3 w-3" />
+                Ajouter une période
+              </Button>
+            </div>
+          ))}
+
+          <Button variant="outline" className="w-full" onClick={addCode}>
+            <Plus className="mr-2 h-4 w-4" />
+            Ajouter un code TVA
+          </Button>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={handleReset}>
+            Réinitialiser
+          </Button>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Annuler
+          </Button>
+          <Button onClick={handleSave}>
+            Enregistrer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default VatCodeSettings;
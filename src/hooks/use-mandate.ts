@@ -0,0 +1,88 @@
+import * as React from "react"
+
+import {
+  getActiveMandate,
+  loadMandateState,
+  MandateProfile,
+  MandateState,
+  saveMandateState,
+} from "@/utils/mandateUtils"
+
+const listeners: Array<(state: MandateState) => void> = []
+
+let memoryState: MandateState | null = null
+
+function getState(): MandateState {
+  if (!memoryState) {
+    memoryState = loadMandateState()
+  }
+  return memoryState
+}
+
+function setState(state: MandateState) {
+  memoryState = state
+  saveMandateState(state)
+  listeners.forEach((listener) => {
+    listener(state)
+  })
+}
+
+function selectMandate(id: string) {
+  setState({ ...getState(), activeId: id })
+}
+
+// Insert or replace a profile, optionally making it the active one
+function saveMandate(profile: MandateProfile, activate = false) {
+  const state = getState()
+  const exists = state.profiles.some((p) => p.id === profile.id)
+  const profiles = exists
+    ? state.profiles.map((p) => (p.id === profile.id ? profile : p))
+    : [...state.profiles, profile]
+  setState({ profiles, activeId: activate ? profile.id : state.activeId })
+}
+
+function updateActiveMandate(changes: Partial<MandateProfile>) {
+  saveMandate({ ...getActiveMandate(getState()), ...changes })
+}
+
+function deleteMandate(id: string) {
+  const state = getState()
+  // The last profile cannot be removed, every page needs an active mandate
+  if (state.profiles.length <= 1) return
+  const profiles = state.profiles.filter((p) => p.id !== id)
+  setState({
+    profiles,
+    activeId: state.activeId === id ? profiles[0].id : state.activeId,
+  })
+}
+
+function importMandates(imported: MandateProfile[]) {
+  const state = getState()
+  setState({ ...state, profiles: [...state.profiles, ...imported] })
+}
+
+function useMandate() {
+  const [state, setLocalState] = React.useState<MandateState>(getState)
+
+  React.useEffect(() => {
+    listeners.push(setLocalState)
+    return () => {
+      const index = listeners.indexOf(setLocalState)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  return {
+    profiles: state.profiles,
+    activeMandate: getActiveMandate(state),
+    selectMandate,
+    saveMandate,
+    updateActiveMandate,
+    deleteMandate,
+    importMandates,
+  }
+}
+
+export { useMandate }
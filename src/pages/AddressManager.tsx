@@ -8,12 +8,15 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { toast } from "@/components/ui/use-toast";
 import { Download, File, Github, Info } from 'lucide-react';
 import * as XLSX from 'xlsx';
+import { useMandate } from '@/hooks/use-mandate';
 
 const AddressManager = () => {
+  const { activeMandate } = useMandate();
   const [supplierMode, setSupplierMode] = useState('INSERT');
-  const [supplierNumber, setSupplierNumber] = useState(450);
   const [customerMode, setCustomerMode] = useState('INSERT');
-  const [customerNumber, setCustomerNumber] = useState(86);
+  // First numbers come from the active mandate
+  const supplierNumber = activeMandate.supplierStartNumber;
+  const customerNumber = activeMandate.customerStartNumber;
   const [generatedXML, setGeneratedXML] = useState<string | null>(null);
   const [xmlType, setXmlType] = useState<'supplier' | 'customer' | null>(null);
 
@@ -12,14 +12,21 @@ import {
   BANK_OPTIONS,
   parseTransactionsFromText, 
   createBankExcelFile, 
-  downloadBankExcelFile 
+  downloadBankExcelFile,
+  describeBankExport
 } from '@/utils/pdfBankUtils';
-import { FileText, Download, Upload, AlertCircle, CheckCircle2, Building2 } from 'lucide-react';
+import { recordExport } from '@/utils/exportHistoryUtils';
+import { applyBookingRules, createF11InputWorkbook, movementsFromBankTransactions } from '@/utils/bookingRuleUtils';
+import { toast } from "@/components/ui/use-toast";
+import BookingRulesSettings from '@/components/BookingRulesSettings';
+import { useMandate } from '@/hooks/use-mandate';
+import { FileText, Download, Upload, AlertCircle, CheckCircle2, Building2, FileSpreadsheet } from 'lucide-react';
 
 // Set the worker source for pdf.js
 pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdnjs.cloudflare.com/ajax/libs/pdf.js/4.4.168/pdf.worker.min.mjs`;
 
 const BankStatementConverter: React.FC = () => {
+  const { activeMandate } = useMandate();
   const [isDragging, setIsDragging] = useState(false);
   const [fileName, setFileName] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -148,7 +155,27 @@ const BankStatementConverter: React.FC = () => {
     
     const workbook = createBankExcelFile(transactions);
     const baseName = fileName?.replace('.pdf', '') || 'Releve';
-    downloadBankExcelFile(workbook, `${baseName}_Converti.xlsx`);
+    const exportName = `${baseName}_Converti.xlsx`;
+    const content = downloadBankExcelFile(workbook, exportName);
+    recordExport({ fileName: exportName, page: 'PDF', content, ...describeBankExport(transactions) }, activeMandate);
+  };
+
+  // Input file of the F11 converter, accounts assigned by the booking rules of the mandate
+  const handleDownloadF11Input = () => {
+    if (transactions.length === 0) return;
+
+    const { rows, matchedCount } = applyBookingRules(
+      movementsFromBankTransactions(transactions),
+      activeMandate.bookingRules,
+      activeMandate.bankAccount
+    );
+    const baseName = fileName?.replace('.pdf', '') || 'Releve';
+    downloadBankExcelFile(createF11InputWorkbook(rows), `${baseName}_Entree_F11.xlsx`);
+
+    toast({
+      title: "Entrée F11 générée",
+      description: `${matchedCount} transaction(s) sur ${rows.length} comptabilisée(s) par une règle, les autres sont à compléter.`,
+    });
   };
 
   const formatCurrency = (value: number | null): string => {
@@ -299,10 +326,17 @@ const BankStatementConverter: React.FC = () => {
           <Card>
             <CardHeader className="flex flex-row items-center justify-between">
               <CardTitle>Aperçu des transactions</CardTitle>
-              <Button onClick={handleDownload} className="flex items-center gap-2">
-                <Download className="h-4 w-4" />
-                Télécharger Excel
-              </Button>
+              <div className="flex flex-wrap items-center gap-2">
+                <BookingRulesSettings />
+                <Button variant="outline" onClick={handleDownloadF11Input} className="flex items-center gap-2">
+                  <FileSpreadsheet className="h-4 w-4" />
+                  Entrée F11
+                </Button>
+                <Button onClick={handleDownload} className="flex items-center gap-2">
+                  <Download className="h-4 w-4" />
+                  Télécharger Excel
+                </Button>
+              </div>
             </CardHeader>
             <CardContent>
               {/* Summary */}
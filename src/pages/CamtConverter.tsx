@@ -10,18 +10,70 @@ import {
   CardTitle 
 } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Download, FileText, ArrowLeft, RotateCcw } from 'lucide-react';
+import { Download, FileText, ArrowLeft, RotateCcw, FileSpreadsheet, BookCheck } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import CamtFileUpload from "@/components/CamtFileUpload";
-import { processCamtFiles, createCamtExcelFile, downloadCamtExcelFile, CamtData, camtHeaders } from "@/utils/camtUtils";
+import {
+  processCamtFiles,
+  createCamtExcelFile,
+  downloadCamtExcelFile,
+  describeCamtExport,
+  CamtData,
+  CamtFile,
+  camtHeaders,
+  camtMessageLabels,
+  statementBalanceControl,
+  SUPPORTED_CAMT_VERSIONS
+} from "@/utils/camtUtils";
+import { recordExport } from "@/utils/exportHistoryUtils";
+import { applyBookingRules, createF11InputWorkbook, movementsFromCamtData } from "@/utils/bookingRuleUtils";
+import {
+  transformData,
+  generateSummary,
+  createExcelFile,
+  downloadExcelFile,
+  describeF11Export,
+  ExcelRow,
+  SummaryData
+} from "@/utils/excelUtils";
+import { validateRows } from "@/utils/validationUtils";
+import { loadChartOfAccounts } from "@/utils/accountUtils";
+import { loadExportedBatches, recordExportedBatch } from "@/utils/duplicateUtils";
+import BookingRulesSettings from "@/components/BookingRulesSettings";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from "@/components/ui/alert-dialog";
+import { useMandate } from "@/hooks/use-mandate";
 import * as XLSX from 'xlsx';
 
+// Missing amounts, such as the balances of a camt.054, are shown as a dash
+const formatAmount = (value: number | null | undefined): string => {
+  if (value === null || value === undefined) return '—';
+  return new Intl.NumberFormat('fr-CH', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(value);
+};
+
 const CamtConverter = () => {
+  const { activeMandate } = useMandate();
   const [isProcessing, setIsProcessing] = useState(false);
   const [processedData, setProcessedData] = useState<CamtData[] | null>(null);
+  const [camtFiles, setCamtFiles] = useState<CamtFile[]>([]);
   const [outputWorkbook, setOutputWorkbook] = useState<XLSX.WorkBook | null>(null);
   const [processingStats, setProcessingStats] = useState<{ totalFiles: number; totalRows: number } | null>(null);
   const [activeTab, setActiveTab] = useState("upload");
+  // F11 entries with payments left without a rule, validation errors or possible duplicates, generated only once confirmed
+  const [pendingF11, setPendingF11] = useState<{
+    outputData: ExcelRow[];
+    summary: SummaryData;
+    unmatchedCount: number;
+    errorCount: number;
+  } | null>(null);
 
   const handleFilesLoaded = async (files: File[]) => {
     setIsProcessing(true);
@@ -30,17 +82,21 @@ const CamtConverter = () => {
       const result = await processCamtFiles(files);
       
       setProcessedData(result.allData);
+      setCamtFiles(result.files);
       setProcessingStats({
         totalFiles: result.totalFiles,
         totalRows: result.totalRows
       });
       
-      const workbook = createCamtExcelFile(result.allData);
+      const workbook = createCamtExcelFile(result.allData, result.files);
       setOutputWorkbook(workbook);
       
+      const discrepancyCount = result.files.reduce((sum, file) => sum + file.discrepancies.length, 0);
       toast({
         title: "Conversion réussie",
-        description: `${result.totalFiles} fichier(s) traité(s), ${result.totalRows} ligne(s) extraite(s).`,
+        description: `${result.totalFiles} fichier(s) traité(s), ${result.totalRows} ligne(s) extraite(s).`
+          + (discrepancyCount > 0 ? ` ${discrepancyCount} écriture(s) groupée(s) dont le détail ne correspond pas au total.` : ''),
+        variant: discrepancyCount > 0 ? "destructive" : "default",
       });
       
       setActiveTab("results");
@@ -70,7 +126,8 @@ const CamtConverter = () => {
     const dateStr = now.toISOString().split('T')[0].replace(/-/g, '.');
     const filename = `Paiements_CAMT_${dateStr}.xlsx`;
 
-    downloadCamtExcelFile(outputWorkbook, filename);
+    const content = downloadCamtExcelFile(outputWorkbook, filename);
+    recordExport({ fileName: filename, page: 'CAMT', content, ...describeCamtExport(processedData || []) }, activeMandate);
     
     toast({
       title: "Téléchargement lancé",
@@ -78,8 +135,99 @@ const CamtConverter = () => {
     });
   };
 
+  // Input file of the F11 converter, accounts assigned by the booking rules of the mandate
+  const handleDownloadF11Input = () => {
+    if (!processedData || processedData.length === 0) return;
+
+    try {
+      const { rows, matchedCount } = applyBookingRules(
+        movementsFromCamtData(processedData),
+        activeMandate.bookingRules,
+        activeMandate.bankAccount
+      );
+      const dateStr = new Date().toISOString().split('T')[0].replace(/-/g, '.');
+      downloadCamtExcelFile(createF11InputWorkbook(rows), `Entree_F11_CAMT_${dateStr}.xlsx`);
+
+      toast({
+        title: "Entrée F11 générée",
+        description: `${matchedCount} paiement(s) sur ${rows.length} comptabilisé(s) par une règle, les autres sont à compléter.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Erreur",
+        description: error instanceof Error ? error.message : "Impossible de générer l'entrée F11.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // F11 journal through the pipeline of the home page, accounts assigned by the booking rules of the mandate
+  const handleDownloadF11 = () => {
+    if (!processedData || processedData.length === 0) return;
+
+    try {
+      const { rows, matchedCount } = applyBookingRules(
+        movementsFromCamtData(processedData),
+        activeMandate.bookingRules,
+        activeMandate.bankAccount
+      );
+      const accounts = loadChartOfAccounts(activeMandate.id);
+      const report = validateRows(rows, { accounts });
+      const outputData = transformData(rows, {
+        vatSettings: activeMandate.vatSettings,
+        mandantNumber: activeMandate.mandantNumber
+      });
+      const summary = generateSummary(
+        outputData,
+        accounts,
+        activeMandate.summaryCategories,
+        loadExportedBatches(activeMandate.id),
+        statementBalanceControl(camtFiles, activeMandate.bankAccount)
+      );
+      const pending = { outputData, summary, unmatchedCount: rows.length - matchedCount, errorCount: report.errorCount };
+
+      if (pending.unmatchedCount > 0 || pending.errorCount > 0 || summary.duplicates.length > 0) {
+        setPendingF11(pending);
+        return;
+      }
+      generateF11(outputData, summary);
+    } catch (error) {
+      toast({
+        title: "Erreur",
+        description: error instanceof Error ? error.message : "Impossible de générer les écritures F11.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const generateF11 = (outputData: ExcelRow[], summary: SummaryData) => {
+    setPendingF11(null);
+
+    try {
+      const dateStr = new Date().toISOString().split('T')[0].replace(/-/g, '.');
+      const filename = `F11_CAMT_${dateStr}.xlsx`;
+
+      const content = downloadExcelFile(createExcelFile(outputData, summary), filename);
+      recordExport({ fileName: filename, page: 'CAMT', content, ...describeF11Export(outputData) }, activeMandate);
+      // Re-importing an overlapping statement later is reported as duplicates
+      recordExportedBatch(activeMandate.id, filename, outputData);
+
+      toast({
+        title: "Écritures F11 générées",
+        description: `${outputData.length} écriture(s) dans ${filename}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Erreur",
+        description: error instanceof Error ? error.message : "Impossible de générer les écritures F11.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const resetConverter = () => {
     setProcessedData(null);
+    setCamtFiles([]);
     setOutputWorkbook(null);
     setProcessingStats(null);
     setActiveTab("upload");
@@ -131,7 +279,7 @@ const CamtConverter = () => {
                 <CardHeader>
                   <CardTitle>Importez vos fichiers CAMT XML</CardTitle>
                   <CardDescription>
-                    Sélectionnez un ou plusieurs fichiers CAMT XML (format ISO 20022 CAMT.054) pour les convertir en Excel
+                    Sélectionnez un ou plusieurs fichiers CAMT XML (ISO 20022 camt.052, camt.053 ou camt.054) pour les convertir en Excel
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
@@ -142,7 +290,9 @@ const CamtConverter = () => {
                         Format CAMT supporté
                       </h3>
                       <p className="text-sm text-green-700 mb-4">
-                        Cette conversion supporte les fichiers <strong>CAMT.054</strong> (ISO 20022) contenant les notifications de débit/crédit.
+                        Cette conversion supporte les relevés intrajournaliers <strong>camt.052</strong>, les relevés de compte <strong>camt.053</strong>
+                        et les avis de débit/crédit <strong>camt.054</strong> (ISO 20022, versions .{SUPPORTED_CAMT_VERSIONS[0]} à .{SUPPORTED_CAMT_VERSIONS[SUPPORTED_CAMT_VERSIONS.length - 1]}).
+                        Le type est reconnu automatiquement pour chaque fichier.
                       </p>
                       
                       <div className="bg-white border border-green-200 rounded-md p-3">
@@ -209,6 +359,87 @@ const CamtConverter = () => {
                       </div>
                     )}
                     
+                    {camtFiles.length > 0 && (
+                      <div className="bg-gray-50 border rounded-lg p-4 mb-6">
+                        <h4 className="font-medium text-gray-900 mb-3">Fichiers et relevés :</h4>
+                        <div className="overflow-x-auto">
+                          <table className="min-w-full text-xs">
+                            <thead>
+                              <tr className="bg-gray-100">
+                                {["Fichier", "Type", "IBAN du compte", "Relevé", "Solde d'ouverture", "Solde de clôture", "Écritures"].map(header => (
+                                  <th key={header} className="px-2 py-1 text-left font-medium text-gray-700 border-b">
+                                    {header}
+                                  </th>
+                                ))}
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {camtFiles.flatMap(file => (file.statements.length > 0 ? file.statements : [null]).map((statement, index) => (
+                                <tr key={`${file.fileName}-${index}`} className="border-b border-gray-200">
+                                  <td className="px-2 py-1 max-w-40 truncate" title={file.fileName}>{file.fileName}</td>
+                                  <td className="px-2 py-1 whitespace-nowrap">
+                                    <span className="font-medium">{file.messageType}{file.version && `.001.${file.version}`}</span>
+                                    <span className="text-gray-500"> — {camtMessageLabels[file.messageType]}</span>
+                                    {!file.supportedVersion && (
+                                      <span className="ml-1 text-orange-600" title="Version non prise en charge, le contenu est lu sans garantie">
+                                        (version non prise en charge)
+                                      </span>
+                                    )}
+                                  </td>
+                                  <td className="px-2 py-1 font-mono">{statement?.iban}</td>
+                                  <td className="px-2 py-1">{statement?.id}</td>
+                                  <td className="px-2 py-1 text-right">{formatAmount(statement?.opening)}</td>
+                                  <td className="px-2 py-1 text-right">{formatAmount(statement?.closing)}</td>
+                                  <td className="px-2 py-1 text-right">{statement?.entryCount ?? 0}</td>
+                                </tr>
+                              )))}
+                            </tbody>
+                          </table>
+                        </div>
+                      </div>
+                    )}
+
+                    {camtFiles.some(file => file.discrepancies.length > 0) && (
+                      <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+                        <h4 className="font-medium text-red-800 mb-1">Écritures groupées incohérentes</h4>
+                        <p className="text-xs text-red-700 mb-3">
+                          La somme des montants des transactions ne correspond pas au montant comptabilisé par la banque.
+                        </p>
+                        <div className="overflow-x-auto">
+                          <table className="min-w-full text-xs">
+                            <thead>
+                              <tr className="bg-red-100">
+                                {["Fichier", "Relevé", "Écriture", "Date", "Montant comptabilisé", "Somme des transactions", "Écart", "Transactions"].map(header => (
+                                  <th key={header} className="px-2 py-1 text-left font-medium text-red-800 border-b">
+                                    {header}
+                                  </th>
+                                ))}
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {camtFiles.flatMap(file => file.discrepancies.map((discrepancy, index) => (
+                                <tr key={`${file.fileName}-${index}`} className="border-b border-red-100">
+                                  <td className="px-2 py-1 max-w-40 truncate" title={file.fileName}>{file.fileName}</td>
+                                  <td className="px-2 py-1">{discrepancy.idReleve}</td>
+                                  <td className="px-2 py-1">{discrepancy.reference || '—'}</td>
+                                  <td className="px-2 py-1">{discrepancy.dateComptabilisation}</td>
+                                  <td className="px-2 py-1 text-right">{formatAmount(discrepancy.montantEcriture)}</td>
+                                  <td className="px-2 py-1 text-right">{formatAmount(discrepancy.totalTransactions)}</td>
+                                  <td className="px-2 py-1 text-right font-medium">
+                                    {formatAmount(discrepancy.totalTransactions - discrepancy.montantEcriture)}
+                                  </td>
+                                  <td className="px-2 py-1">
+                                    {discrepancy.transactionCount}
+                                    {discrepancy.missingAmounts > 0 && ` (${discrepancy.missingAmounts} sans montant)`}
+                                  </td>
+                                </tr>
+                              )))}
+                            </tbody>
+                          </table>
+                        </div>
+                      </div>
+                    )}
+
                     {processedData && processedData.length > 0 && (
                       <div className="bg-gray-50 border rounded-lg p-4">
                         <h4 className="font-medium text-gray-900 mb-3">Aperçu des données (5 premières lignes) :</h4>
@@ -257,6 +488,56 @@ const CamtConverter = () => {
                       <Download className="h-4 w-4 mr-2" />
                       Télécharger le fichier Excel
                     </Button>
+
+                    <div className="flex gap-2">
+                      <BookingRulesSettings />
+                      <Button
+                        onClick={handleDownloadF11}
+                        variant="outline"
+                        size="sm"
+                        className="flex-1"
+                        disabled={!processedData || processedData.length === 0}
+                      >
+                        <BookCheck className="h-4 w-4 mr-2" />
+                        Générer les écritures F11 (compte bancaire {activeMandate.bankAccount})
+                      </Button>
+                    </div>
+
+                    <AlertDialog open={!!pendingF11} onOpenChange={(open) => !open && setPendingF11(null)}>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Écritures à vérifier</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            {pendingF11 && pendingF11.unmatchedCount > 0 && (
+                              <>{pendingF11.unmatchedCount} paiement(s) sans règle de comptabilisation, le compte reste vide. </>
+                            )}
+                            {pendingF11 && pendingF11.errorCount > 0 && (
+                              <>{pendingF11.errorCount} erreur(s) de validation (compte manquant ou absent du plan comptable, date, devise sans cours…). </>
+                            )}
+                            {pendingF11 && pendingF11.summary.duplicates.length > 0 && (
+                              <>{pendingF11.summary.duplicates.length} doublon(s) possible(s) avec le fichier ou un export précédent (même date, compte et montant), détaillés dans le résumé. </>
+                            )}
+                            Complétez les règles ou téléchargez l'entrée F11 pour corriger les lignes avant l'import dans Abacus.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Annuler</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => pendingF11 && generateF11(pendingF11.outputData, pendingF11.summary)}>
+                            Générer quand même
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+
+                    <Button
+                      onClick={handleDownloadF11Input}
+                      variant="outline"
+                      size="sm"
+                      disabled={!processedData || processedData.length === 0}
+                    >
+                      <FileSpreadsheet className="h-4 w-4 mr-2" />
+                      Télécharger l'entrée F11 à compléter (mêmes règles)
+                    </Button>
                     
                     <Button 
                       onClick={resetConverter}
@@ -4,6 +4,12 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { Upload, Download, FileText, CheckCircle2, AlertCircle, Loader2, Info } from 'lucide-react';
+import VatCodeSettings from "@/components/VatCodeSettings";
+import { getVatRate, loadVatCodes, VatCodeDefinition } from "@/utils/vatUtils";
+import { useMandate } from "@/hooks/use-mandate";
+import { escapeXml } from "@/utils/abaconnectUtils";
+import { DateSystem, toIsoDate, workbookDateSystem } from "@/utils/dateUtils";
+import { recordExport } from "@/utils/exportHistoryUtils";
 
 // Type definitions
 interface InvoiceRow {
@@ -37,24 +43,28 @@ interface Stats {
 
 type StatusType = 'idle' | 'processing' | 'success' | 'error';
 
-// VAT rates configuration
-const vatRates: Record<string, number> = {
-  '511': 0.081,
-  '512': 0.026,
-  '311': 0.081,
-  '312': 0.025,
-  '400': 0.00,
-  '126': 0.00,
-  '200': 0.00,
-};
-
 const round = (num: number, decimals: number = 2): number => {
   return Math.round(num * Math.pow(10, decimals)) / Math.pow(10, decimals);
 };
 
-const calculateVAT = (row: Partial<InvoiceRow>) => {
-  const vatCode = String(row['Code TVA']);
-  const vatRate = vatRates[vatCode] || 0.00;
+// Invoice dates are converted once to yyyy-mm-dd, an unreadable date stops the conversion
+const normalizeInvoiceDates = (data: Partial<InvoiceRow>[], dateSystem: DateSystem) => {
+  data.forEach(row => {
+    try {
+      row['Date Facture'] = toIsoDate(row['Date Facture'], dateSystem);
+    } catch (err) {
+      throw new Error(`Facture ${row['N° Facture'] ?? '?'} : ${(err as Error).message}`);
+    }
+  });
+};
+
+// VAT rate as a fraction, taken from the shared registry for the invoice date
+const getInvoiceVatRate = (row: Partial<InvoiceRow>, vatCodes: VatCodeDefinition[]): number => {
+  return getVatRate(String(row['Code TVA']), String(row['Date Facture']), vatCodes) / 100;
+};
+
+const calculateVAT = (row: Partial<InvoiceRow>, vatCodes: VatCodeDefinition[]) => {
+  const vatRate = getInvoiceVatRate(row, vatCodes);
   const montant = parseFloat(String(row['Montant'])) || 0;
 
   let grossAmount: number, vatAmount: number, tvaIncluseXML: string, netAmount: number;
@@ -74,8 +84,10 @@ const calculateVAT = (row: Partial<InvoiceRow>) => {
 };
 
 const processExcelData = (data: any[]): ProcessedData => {
+  const vatCodes = loadVatCodes();
+
   data.forEach((row: any) => {
-    const vatCalc = calculateVAT(row);
+    const vatCalc = calculateVAT(row, vatCodes);
     row.GrossAmount = vatCalc.grossAmount;
     row.VatAmount = vatCalc.vatAmount;
     row.TVAIncluseXML = vatCalc.tvaIncluseXML;
@@ -98,8 +110,7 @@ const processExcelData = (data: any[]): ProcessedData => {
     if (Math.abs(totalAPayer - sumLines) > 0.005) {
       const lastIdx = group.length - 1;
       const lastRow = group[lastIdx];
-      const vatCode = String(lastRow['Code TVA']);
-      const vatRate2 = vatRates[vatCode] || 0.00;
+      const vatRate2 = getInvoiceVatRate(lastRow, vatCodes);
 
       const otherLinesSum = group.slice(0, -1).reduce((sum, row) => sum + row.GrossAmount, 0);
       const adjustment = totalAPayer - otherLinesSum;
@@ -119,17 +130,7 @@ const processExcelData = (data: any[]): ProcessedData => {
   return { data, invoices };
 };
 
-const escapeXml = (unsafe: string): string => {
-  if (!unsafe) return '';
-  return String(unsafe)
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&apos;');
-};
-
-const generateXML = (processedData: ProcessedData): string => {
+const generateXML = (processedData: ProcessedData, collectiveAccount: string): string => {
   const { invoices } = processedData;
 
   let xml = '<?xml version="1.0" encoding="utf-8"?>\n';
@@ -149,26 +150,7 @@ const generateXML = (processedData: ProcessedData): string => {
     const group = invoices[invoiceNo];
     const firstRow = group[0];
 
-    let dateStr = String(firstRow['Date Facture']);
-    let dateFormatted: string;
-
-    if (dateStr.includes('/')) {
-      const parts = dateStr.split('/');
-      dateFormatted = `${parts[2]}-${parts[1].padStart(2, '0')}-${parts[0].padStart(2, '0')}`;
-    } else if (dateStr.includes('-')) {
-      dateFormatted = dateStr.split(' ')[0];
-    } else {
-      const excelDate = parseFloat(dateStr);
-      if (!isNaN(excelDate)) {
-        const date = new Date((excelDate - 25569) * 86400 * 1000);
-        const year = date.getFullYear();
-        const month = String(date.getMonth() + 1).padStart(2, '0');
-        const day = String(date.getDate()).padStart(2, '0');
-        dateFormatted = `${year}-${month}-${day}`;
-      } else {
-        dateFormatted = new Date().toISOString().split('T')[0];
-      }
-    }
+    const dateFormatted = String(firstRow['Date Facture']);
 
     const amountTotal = round(group.reduce((sum, row) => sum + row.GrossAmount, 0));
     const paymentRef = firstRow['Référence Paiement'] || '';
@@ -188,7 +170,7 @@ const generateXML = (processedData: ProcessedData): string => {
     xml += '        <GroupNumber1>0</GroupNumber1>\n';
     xml += '        <NoTax>false</NoTax>\n';
     xml += `        <PaymentReferenceLine>${paymentRef}</PaymentReferenceLine>\n`;
-    xml += '        <CollectiveAccount>1100</CollectiveAccount>\n';
+    xml += `        <CollectiveAccount>${collectiveAccount}</CollectiveAccount>\n`;
 
     group.forEach((row: InvoiceRow) => {
       const textContent = String(row['Libellé'] || '');
@@ -246,6 +228,7 @@ const generateXML = (processedData: ProcessedData): string => {
 };
 
 const DebFactManager: React.FC = () => {
+  const { activeMandate } = useMandate();
   const [currentFile, setCurrentFile] = useState<File | null>(null);
   const [xmlContent, setXmlContent] = useState<string | null>(null);
   const [outputFileName, setOutputFileName] = useState<string>('');
@@ -253,6 +236,9 @@ const DebFactManager: React.FC = () => {
   const [statusMessage, setStatusMessage] = useState<string>('');
   const [stats, setStats] = useState<Stats | null>(null);
   const [isDragging, setIsDragging] = useState<boolean>(false);
+  const [vatCodes, setVatCodes] = useState<VatCodeDefinition[]>(() => loadVatCodes());
+  // One line per invoice, kept in the export history to compare two conversions
+  const [invoiceLines, setInvoiceLines] = useState<string[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFile = (file: File) => {
@@ -313,6 +299,8 @@ const DebFactManager: React.FC = () => {
 
       console.log('Colonnes disponibles:', Object.keys(jsonData[0] || {}));
 
+      normalizeInvoiceDates(jsonData as Partial<InvoiceRow>[], workbookDateSystem(workbook));
+
       const processedData = processExcelData(jsonData);
 
       const firstInvoiceKey = Object.keys(processedData.invoices)[0];
@@ -323,7 +311,7 @@ const DebFactManager: React.FC = () => {
         });
       }
 
-      const xml = generateXML(processedData);
+      const xml = generateXML(processedData, activeMandate.collectiveAccount || '1100');
       setXmlContent(xml);
 
       console.log('Aperçu XML généré:');
@@ -339,6 +327,9 @@ const DebFactManager: React.FC = () => {
       }, 0);
 
       setStats({ invoiceCount, lineCount, totalAmount });
+      setInvoiceLines(Object.entries(processedData.invoices).map(([invoiceNo, group]) =>
+        [invoiceNo, group[0]['Client'], group[0]['Date Facture'], round(group.reduce((s, row) => s + row.GrossAmount, 0)).toFixed(2)].join(' | ')
+      ));
     } catch (error) {
       setStatus('error');
       setStatusMessage('Erreur: ' + (error as Error).message);
@@ -358,6 +349,15 @@ const DebFactManager: React.FC = () => {
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
+
+    recordExport({
+      fileName: outputFileName,
+      page: 'DEBI',
+      content: blob,
+      rowCount: stats?.lineCount ?? 0,
+      totals: { 'Total factures': round(stats?.totalAmount ?? 0) },
+      lines: invoiceLines
+    }, activeMandate);
   };
 
   return (
@@ -450,8 +450,11 @@ const DebFactManager: React.FC = () => {
               <ul className="text-sm text-blue-700 space-y-1">
                 <li>• Colonnes obligatoires : <span className="font-mono text-xs bg-blue-100 px-1 rounded">N° Facture</span>, <span className="font-mono text-xs bg-blue-100 px-1 rounded">Date Facture</span>, <span className="font-mono text-xs bg-blue-100 px-1 rounded">Client</span>, <span className="font-mono text-xs bg-blue-100 px-1 rounded">Montant</span></li>
                 <li>• Colonne <span className="font-mono text-xs bg-blue-100 px-1 rounded">Centre de Coût</span> doit être présente</li>
-                <li>• Codes TVA supportés : 511, 512, 311, 312, 400, 126, 200</li>
+                <li>• Codes TVA supportés : {vatCodes.map(code => code.code).join(', ')}</li>
               </ul>
+              <div className="mt-3">
+                <VatCodeSettings onSaved={setVatCodes} />
+              </div>
             </div>
           </CardContent>
         </Card>
@@ -12,6 +12,8 @@ import { useToast } from "@/hooks/use-toast";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, AreaChart, Area } from "recharts";
 import * as XLSX from "xlsx";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useMandate } from "@/hooks/use-mandate";
+import { tryParseDate, workbookDateSystem } from "@/utils/dateUtils";
 
 interface EntryData {
   date: Date;
@@ -19,34 +21,6 @@ interface EntryData {
   modificationUser?: string;
 }
 
-// User mapping for XML ModificationUser field
-const USER_MAPPING: Record<string, string> = {
-  "8": "David Gaudin",
-  "9": "Kevin Nahmias",
-  "11": "Eloïse Pitel",
-  "17": "getyoozuneo_ws",
-  "20": "Sameh Ben Amor",
-  "23": "Hamza Bouguerra",
-  "31": "Sylvain Köhli",
-  "33": "Aida Jouini",
-  "98": "Ancien collaborateur",
-  "111": "Mike Cottier",
-  "162": "Mahdi Cherif",
-  "170": "Ancien collaborateur",
-  "186": "Helmi Jouini",
-  "190": "Yohanna Channel",
-  "191": "Mariya Gesheva",
-  "200": "Igor Maia",
-  "247": "Christophe Guillaud",
-  "315": "Lamber FALQUET",
-  "318": "Julien Simmonet",
-  "343": "Bruno LIMA",
-  "369": "Rodolphe Droin",
-  "416": "Jolan Labhard",
-  "417": "Imène Ben Rabeb",
-  "487": "Salem Ben-farhat",
-};
-
 type PeriodType = "day" | "month" | "quarter" | "semester" | "year";
 
 const MONTH_NAMES = ["janv", "févr", "mars", "avr", "mai", "juin", "juil", "août", "sept", "oct", "nov", "déc"];
@@ -119,31 +93,11 @@ const EntryAnalysis = () => {
   const [userStats, setUserStats] = useState<Record<string, Record<string, number>>>({});
   const [fileType, setFileType] = useState<"excel" | "xml" | null>(null);
   const { toast } = useToast();
-
-  const parseDate = (dateValue: any): Date | null => {
-    if (!dateValue) return null;
-    
-    if (typeof dateValue === "number") {
-      const excelEpoch = new Date(1899, 11, 30);
-      return new Date(excelEpoch.getTime() + dateValue * 86400000);
-    }
-    
-    if (typeof dateValue === "string") {
-      const dotMatch = dateValue.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})$/);
-      if (dotMatch) {
-        return new Date(parseInt(dotMatch[3]), parseInt(dotMatch[2]) - 1, parseInt(dotMatch[1]));
-      }
-      const dashMatch = dateValue.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
-      if (dashMatch) {
-        return new Date(parseInt(dashMatch[1]), parseInt(dashMatch[2]) - 1, parseInt(dashMatch[3]));
-      }
-    }
-    
-    return null;
-  };
+  // User mapping for XML ModificationUser field, defined per mandate
+  const userMapping = useMandate().activeMandate.userMapping;
 
   // Parse XML file
-  const parseXmlFile = useCallback(async (file: File): Promise<{ entries: EntryData[], reversedCount: number, userCounts: Record<string, Record<string, number>> }> => {
+  const parseXmlFile = useCallback(async (file: File): Promise<{ entries: EntryData[], reversedCount: number, invalidDateCount: number, userCounts: Record<string, Record<string, number>> }> => {
     const text = await file.text();
     const parser = new DOMParser();
     const xmlDoc = parser.parseFromString(text, "text/xml");
@@ -156,6 +110,7 @@ const EntryAnalysis = () => {
     const transactions = xmlDoc.querySelectorAll("Transaction");
     const parsedEntries: EntryData[] = [];
     let reversedCount = 0;
+    let invalidDateCount = 0;
     // userCounts structure: { userName: { module: count } }
     const userCounts: Record<string, Record<string, number>> = {};
 
@@ -181,12 +136,15 @@ const EntryAnalysis = () => {
       const modificationUserId = modificationUserElement?.textContent?.trim() || "";
 
       // Parse date (format: YYYY-MM-DD)
-      const date = parseDate(entryDateStr);
-      if (!date) return;
+      const date = tryParseDate(entryDateStr);
+      if (!date) {
+        invalidDateCount++;
+        return;
+      }
 
       // Track user stats by module
       if (modificationUserId) {
-        const userName = USER_MAPPING[modificationUserId] || `Utilisateur #${modificationUserId}`;
+        const userName = userMapping[modificationUserId] || `Utilisateur #${modificationUserId}`;
         if (!userCounts[userName]) {
           userCounts[userName] = {};
         }
@@ -200,13 +158,14 @@ const EntryAnalysis = () => {
       });
     });
 
-    return { entries: parsedEntries, reversedCount, userCounts };
-  }, []);
+    return { entries: parsedEntries, reversedCount, invalidDateCount, userCounts };
+  }, [userMapping]);
 
   // Parse Excel file
-  const parseExcelFile = useCallback(async (file: File): Promise<{ entries: EntryData[], reversedCount: number }> => {
+  const parseExcelFile = useCallback(async (file: File): Promise<{ entries: EntryData[], reversedCount: number, invalidDateCount: number }> => {
     const arrayBuffer = await file.arrayBuffer();
     const workbook = XLSX.read(arrayBuffer, { type: "array" });
+    const dateSystem = workbookDateSystem(workbook);
     const sheetName = workbook.SheetNames[0];
     const worksheet = workbook.Sheets[sheetName];
     const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 }) as any[][];
@@ -220,6 +179,7 @@ const EntryAnalysis = () => {
     const collectiveIdentifierColIndex = 15; // Column P - Identificateur écriture collective
     const parsedEntries: EntryData[] = [];
     let reversedCount = 0;
+    let invalidDateCount = 0;
 
     for (let i = 1; i < jsonData.length; i++) {
       const row = jsonData[i];
@@ -233,14 +193,18 @@ const EntryAnalysis = () => {
         continue;
       }
 
-      const date = parseDate(dateValue);
-      if (!date) continue;
+      if (dateValue === undefined || dateValue === null || dateValue === "") continue;
+      const date = tryParseDate(dateValue, dateSystem);
+      if (!date) {
+        invalidDateCount++;
+        continue;
+      }
 
       const module = moduleValue ? String(moduleValue).trim() : "?";
       parsedEntries.push({ date, module });
     }
 
-    return { entries: parsedEntries, reversedCount };
+    return { entries: parsedEntries, reversedCount, invalidDateCount };
   }, []);
 
   const handleFileUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -260,6 +224,7 @@ const EntryAnalysis = () => {
 
       let parsedEntries: EntryData[] = [];
       let reversedCount = 0;
+      let invalidDateCount = 0;
       let userCounts: Record<string, Record<string, number>> = {};
       const moduleSet = new Set<string>();
 
@@ -267,12 +232,14 @@ const EntryAnalysis = () => {
         const result = await parseXmlFile(file);
         parsedEntries = result.entries;
         reversedCount = result.reversedCount;
+        invalidDateCount = result.invalidDateCount;
         userCounts = result.userCounts;
         setFileType("xml");
       } else {
         const result = await parseExcelFile(file);
         parsedEntries = result.entries;
         reversedCount = result.reversedCount;
+        invalidDateCount = result.invalidDateCount;
         setFileType("excel");
         userCounts = {};
       }
@@ -286,7 +253,8 @@ const EntryAnalysis = () => {
       
       toast({
         title: "Analyse terminée",
-        description: `${parsedEntries.length} écritures chargées${reversedCount > 0 ? ` (${reversedCount} extournées exclues)` : ""}`,
+        description: `${parsedEntries.length} écritures chargées${reversedCount > 0 ? ` (${reversedCount} extournées exclues)` : ""}`
+          + (invalidDateCount > 0 ? `. ${invalidDateCount} écriture${invalidDateCount > 1 ? "s" : ""} ignorée${invalidDateCount > 1 ? "s" : ""} : date illisible.` : ""),
       });
     } catch (error) {
       console.error("Erreur lors de l'analyse:", error);
@@ -1131,7 +1099,7 @@ const EntryAnalysis = () => {
                       entries.forEach(entry => {
                         if (!entry.modificationUser) return;
                         const dateKey = entry.date.toISOString().split('T')[0];
-                        const userName = USER_MAPPING[entry.modificationUser] || `Utilisateur #${entry.modificationUser}`;
+                        const userName = userMapping[entry.modificationUser] || `Utilisateur #${entry.modificationUser}`;
                         
                         if (!contributionsData[dateKey]) contributionsData[dateKey] = {};
                         contributionsData[dateKey][userName] = (contributionsData[dateKey][userName] || 0) + 1;
@@ -0,0 +1,306 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from "@/components/ui/alert-dialog";
+import { toast } from "@/components/ui/use-toast";
+import { Download, GitCompare, History, Trash2 } from 'lucide-react';
+import { useMandate } from '@/hooks/use-mandate';
+import {
+  compareExports,
+  deleteExport,
+  downloadBlob,
+  ExportRecord,
+  exportPageLabels,
+  listExports,
+  purgeExportsBefore
+} from '@/utils/exportHistoryUtils';
+
+const PURGE_OPTIONS = [
+  { value: '30', label: 'plus de 30 jours' },
+  { value: '90', label: 'plus de 90 jours' },
+  { value: '365', label: "plus d'un an" }
+];
+
+// Lines listed per side in the comparison
+const MAX_COMPARED_LINES = 100;
+
+const formatAmount = (value: number): string => {
+  return new Intl.NumberFormat('fr-CH', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(value);
+};
+
+const formatDateTime = (iso: string): string => new Date(iso).toLocaleString('fr-CH');
+
+const ExportHistory: React.FC = () => {
+  const { activeMandate } = useMandate();
+  const [records, setRecords] = useState<ExportRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [activeMandateOnly, setActiveMandateOnly] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [purgeDays, setPurgeDays] = useState('90');
+
+  const refresh = useCallback(async () => {
+    try {
+      setRecords(await listExports());
+    } catch (error) {
+      toast({
+        title: "Historique indisponible",
+        description: (error as Error).message || "IndexedDB n'est pas accessible dans ce navigateur.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const visibleRecords = activeMandateOnly
+    ? records.filter(record => record.mandateId === activeMandate.id)
+    : records;
+
+  const toggleSelected = (id: number, checked: boolean) => {
+    // Only two exports are compared, the oldest selection makes room for the new one
+    setSelectedIds(prev => checked ? [...prev, id].slice(-2) : prev.filter(selected => selected !== id));
+  };
+
+  // Older export first, so differences read as "what changed since"
+  const compared = useMemo(() => {
+    const selected = records
+      .filter(record => selectedIds.includes(record.id as number))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    return selected.length === 2
+      ? { first: selected[0], second: selected[1], result: compareExports(selected[0], selected[1]) }
+      : null;
+  }, [records, selectedIds]);
+
+  const handleDelete = async (id: number) => {
+    try {
+      await deleteExport(id);
+      setSelectedIds(prev => prev.filter(selected => selected !== id));
+      await refresh();
+    } catch (error) {
+      toast({
+        title: "Suppression impossible",
+        description: (error as Error).message || "IndexedDB n'est pas accessible dans ce navigateur.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handlePurge = async () => {
+    const limit = new Date();
+    limit.setDate(limit.getDate() - parseInt(purgeDays, 10));
+    try {
+      const count = await purgeExportsBefore(limit);
+      setSelectedIds([]);
+      await refresh();
+      toast({
+        title: "Historique purgé",
+        description: `${count} export${count > 1 ? 's' : ''} supprimé${count > 1 ? 's' : ''}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Purge impossible",
+        description: (error as Error).message || "IndexedDB n'est pas accessible dans ce navigateur.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="max-w-6xl mx-auto space-y-8">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            Historique des exports
+          </h1>
+          <p className="text-gray-600">
+            Fichiers générés par les convertisseurs, conservés dans ce navigateur
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between gap-4">
+              <span className="flex items-center gap-2">
+                <History className="h-5 w-5" />
+                Exports
+              </span>
+              <div className="flex items-center gap-2 text-sm font-normal">
+                <Switch id="active-mandate-only" checked={activeMandateOnly} onCheckedChange={setActiveMandateOnly} />
+                <Label htmlFor="active-mandate-only">Mandat « {activeMandate.name} » uniquement</Label>
+              </div>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isLoading ? (
+              <p className="text-sm text-gray-500">Chargement...</p>
+            ) : visibleRecords.length === 0 ? (
+              <p className="text-sm text-gray-500">Aucun export enregistré.</p>
+            ) : (
+              <div className="border rounded-md overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10" title="Comparer">
+                        <GitCompare className="h-4 w-4" />
+                      </TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Page</TableHead>
+                      <TableHead>Fichier</TableHead>
+                      {!activeMandateOnly && <TableHead>Mandat</TableHead>}
+                      <TableHead className="text-right">Lignes</TableHead>
+                      <TableHead className="text-right">Totaux</TableHead>
+                      <TableHead>Somme de contrôle</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleRecords.map(record => (
+                      <TableRow key={record.id}>
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedIds.includes(record.id as number)}
+                            onCheckedChange={(checked) => toggleSelected(record.id as number, checked === true)}
+                          />
+                        </TableCell>
+                        <TableCell className="text-xs whitespace-nowrap">{formatDateTime(record.createdAt)}</TableCell>
+                        <TableCell className="text-xs">{exportPageLabels[record.page]}</TableCell>
+                        <TableCell className="text-xs font-medium">{record.fileName}</TableCell>
+                        {!activeMandateOnly && <TableCell className="text-xs">{record.mandateName}</TableCell>}
+                        <TableCell className="text-xs text-right">{record.rowCount}</TableCell>
+                        <TableCell className="text-xs text-right whitespace-nowrap">
+                          {Object.entries(record.totals).map(([name, value]) => (
+                            <div key={name}>{name} {formatAmount(value)}</div>
+                          ))}
+                        </TableCell>
+                        <TableCell className="text-xs font-mono" title={record.checksum}>
+                          {record.checksum.slice(0, 12)}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          <Button variant="ghost" size="sm" onClick={() => downloadBlob(record.content, record.fileName)} title="Télécharger à nouveau">
+                            <Download className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleDelete(record.id as number)} title="Supprimer">
+                            <Trash2 className="h-4 w-4 text-red-600" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <p className="text-xs text-gray-500">Cochez deux exports pour les comparer.</p>
+              <div className="flex items-center gap-2">
+                <Select value={purgeDays} onValueChange={setPurgeDays}>
+                  <SelectTrigger className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PURGE_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="outline" disabled={records.length === 0}>
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      Purger
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Purger l'historique</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Les exports de {PURGE_OPTIONS.find(option => option.value === purgeDays)?.label}, de tous les mandats,
+                        seront définitivement supprimés de ce navigateur.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Annuler</AlertDialogCancel>
+                      <AlertDialogAction onClick={handlePurge}>
+                        Purger
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {compared && (
+          <Card className="animate-fade-in">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <GitCompare className="h-5 w-5" />
+                Comparaison
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                {[compared.first, compared.second].map(record => (
+                  <div key={record.id} className="bg-gray-50 rounded-md p-3">
+                    <p className="font-medium">{record.fileName}</p>
+                    <p className="text-xs text-gray-600">{formatDateTime(record.createdAt)} — {record.mandateName}</p>
+                  </div>
+                ))}
+              </div>
+
+              {compared.result.identical ? (
+                <p className="text-sm text-green-700">Les deux fichiers sont identiques (même somme de contrôle).</p>
+              ) : (
+                <div className="space-y-1 text-sm">
+                  <p>Différence de lignes : {compared.result.rowCountDifference > 0 ? '+' : ''}{compared.result.rowCountDifference}</p>
+                  {Object.entries(compared.result.totalDifferences).map(([name, value]) => (
+                    <p key={name}>Différence {name} : {value > 0 ? '+' : ''}{formatAmount(value)}</p>
+                  ))}
+                </div>
+              )}
+
+              {[
+                { title: `Uniquement dans ${compared.first.fileName} (ancien)`, lines: compared.result.onlyInFirst },
+                { title: `Uniquement dans ${compared.second.fileName} (récent)`, lines: compared.result.onlyInSecond }
+              ].filter(side => side.lines.length > 0).map(side => (
+                <div key={side.title}>
+                  <p className="text-xs font-medium text-gray-700 mb-1">{side.title} : {side.lines.length} ligne(s)</p>
+                  <div className="bg-gray-50 rounded-md p-2 max-h-48 overflow-y-auto font-mono text-xs space-y-0.5">
+                    {side.lines.slice(0, MAX_COMPARED_LINES).map((line, index) => (
+                      <div key={index}>{line}</div>
+                    ))}
+                    {side.lines.length > MAX_COMPARED_LINES && (
+                      <div className="text-gray-500">… {side.lines.length - MAX_COMPARED_LINES} autre(s)</div>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExportHistory;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import * as XLSX from 'xlsx';
 import { toast } from "@/components/ui/use-toast";
 import { Button } from "@/components/ui/button";
@@ -11,38 +11,221 @@ import {
   CardTitle 
 } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { transformData, createExcelFile, downloadExcelFile, generateSummary, SummaryData } from "@/utils/excelUtils";
+import {
+  transformData,
+  createExcelFile,
+  generateSummary,
+  downloadExcelFile,
+  describeF11Export,
+  detectDebitCreditMode,
+  updateEntry,
+  applyEntryEditToInput,
+  entryInputIndexes,
+  validateHeaders,
+  BankBalanceControl as BalanceControl,
+  DebitCreditMode,
+  EditableColumn,
+  ExcelRow,
+  SummaryData
+} from "@/utils/excelUtils";
 import FileUpload from "@/components/FileUpload";
+import ColumnMappingStep from "@/components/ColumnMappingStep";
 import TransformationSummary from "@/components/TransformationSummary";
+import EntryPreviewGrid from "@/components/EntryPreviewGrid";
+import VatCodeSettings from "@/components/VatCodeSettings";
+import ValidationReportTable from "@/components/ValidationReportTable";
+import { validateRows, ValidationReport } from "@/utils/validationUtils";
+import CostCentreList from "@/components/CostCentreList";
+import { CostCentre, loadCostCentres, saveCostCentres } from "@/utils/costCentreUtils";
+import ChartOfAccountsList from "@/components/ChartOfAccountsList";
+import { ChartAccount, loadChartOfAccounts, saveChartOfAccounts } from "@/utils/accountUtils";
+import SummaryCategorySettings from "@/components/SummaryCategorySettings";
+import BankBalanceControl from "@/components/BankBalanceControl";
+import { SummaryCategoryDefinition } from "@/utils/summaryUtils";
+import { useMandate } from "@/hooks/use-mandate";
+import { downloadXmlFile, generateFibuXml } from "@/utils/abaconnectUtils";
+import { loadExportedBatches, recordExportedBatch } from "@/utils/duplicateUtils";
+import { recordExport } from "@/utils/exportHistoryUtils";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from "@/components/ui/alert-dialog";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Separator } from '@/components/ui/separator';
 import { Download, Image, File, FileText } from 'lucide-react';
 import { Link } from 'react-router-dom';
 
 const Index = () => {
-  const [workbook, setWorkbook] = useState<XLSX.WorkBook | null>(null);
+  const { activeMandate } = useMandate();
   const [jsonData, setJsonData] = useState<any[] | null>(null);
   const [transformedData, setTransformedData] = useState<any[] | null>(null);
   const [outputWorkbook, setOutputWorkbook] = useState<XLSX.WorkBook | null>(null);
   const [summaryData, setSummaryData] = useState<SummaryData | null>(null);
   const [isTransforming, setIsTransforming] = useState(false);
   const [activeTab, setActiveTab] = useState<string>("upload");
+  const [allowDownloadWithErrors, setAllowDownloadWithErrors] = useState(false);
+  const [debitCreditMode, setDebitCreditMode] = useState<DebitCreditMode>('sign');
+  const [costCentres, setCostCentres] = useState<CostCentre[]>(() => loadCostCentres(activeMandate.id));
+  const [accounts, setAccounts] = useState<ChartAccount[]>(() => loadChartOfAccounts(activeMandate.id));
+  // Input rows with the corrections made in the preview grid, validated in place of the loaded rows
+  const [inputRows, setInputRows] = useState<ExcelRow[] | null>(null);
+  // Index in the input rows of each transformed row
+  const [entryIndexes, setEntryIndexes] = useState<number[]>([]);
+  // Previous and undone states of the transformed rows edited in the preview grid, with their input rows
+  const [undoStack, setUndoStack] = useState<{ rows: ExcelRow[]; input: ExcelRow[] }[]>([]);
+  const [redoStack, setRedoStack] = useState<{ rows: ExcelRow[]; input: ExcelRow[] }[]>([]);
+  const [exportFormat, setExportFormat] = useState<'xlsx' | 'xml'>('xlsx');
+  // Imported rows waiting for their columns to be mapped to the required headers
+  const [pendingImport, setPendingImport] = useState<{ data: ExcelRow[]; sources: string[] } | null>(null);
+  // Possible duplicates must be confirmed before the file is generated
+  const [confirmDuplicatesOpen, setConfirmDuplicatesOpen] = useState(false);
+  // Expected opening and closing balances of the bank account, checked in the summary
+  const [balanceControl, setBalanceControl] = useState<BalanceControl | null>(null);
+  // Batches downloaded from the rows currently loaded, so that regenerating them is not reported as duplicates
+  const [sessionBatches, setSessionBatches] = useState<string[]>([]);
 
-  const handleFileLoaded = (workbook: XLSX.WorkBook, data: any[]) => {
-    setWorkbook(workbook);
+  // Each mandate has its own chart of accounts and cost centres
+  useEffect(() => {
+    setAccounts(loadChartOfAccounts(activeMandate.id));
+    setCostCentres(loadCostCentres(activeMandate.id));
+  }, [activeMandate.id]);
+
+  // Re-run whenever the data, a correction or one of the reference lists changes
+  const validatedRows: ExcelRow[] | null = inputRows ?? jsonData;
+  const validationReport = useMemo<ValidationReport | null>(
+    () => (validatedRows ? validateRows(validatedRows, { debitCreditMode, costCentres, accounts }) : null),
+    [validatedRows, debitCreditMode, costCentres, accounts]
+  );
+
+  // Warnings never block, errors block the download unless explicitly allowed
+  const isDownloadBlocked = !!validationReport && validationReport.errorCount > 0 && !allowDownloadWithErrors;
+
+  const handleFileLoaded = (data: ExcelRow[], sources: string[]) => {
+    // Headers missing from the first row are still present as keys on later rows
+    const headers = Array.from(new Set(data.flatMap(row => Object.keys(row))));
+    if (validateHeaders(headers).length > 0) {
+      setPendingImport({ data, sources });
+      return;
+    }
+    loadRows(data, sources, headers);
+  };
+
+  const handleColumnsMapped = (data: ExcelRow[]) => {
+    const sources = pendingImport?.sources ?? [];
+    setPendingImport(null);
+    loadRows(data, sources, Array.from(new Set(data.flatMap(row => Object.keys(row)))));
+  };
+
+  const loadRows = (data: ExcelRow[], sources: string[], headers: string[]) => {
     setJsonData(data);
+    setInputRows(null);
     setTransformedData(null);
     setOutputWorkbook(null);
     setSummaryData(null);
+    setSessionBatches([]);
+
+    const mode = detectDebitCreditMode(headers);
+    setDebitCreditMode(mode);
+    setAllowDownloadWithErrors(false);
     
     toast({
       title: "Fichier chargé avec succès",
-      description: `${data.length} lignes trouvées dans le fichier.`,
+      description: sources.length > 1
+        ? `${data.length} lignes trouvées dans ${sources.length} feuilles, numérotées à la suite.`
+        : `${data.length} lignes trouvées dans le fichier.`,
     });
 
     // Move to transform tab
     setActiveTab("transform");
   };
 
+  const handleDebitCreditModeChange = (mode: DebitCreditMode) => {
+    setDebitCreditMode(mode);
+  };
+
+  const handleCostCentresChange = (list: CostCentre[]) => {
+    setCostCentres(list);
+    saveCostCentres(activeMandate.id, list);
+  };
+
+  const handleAccountsChange = (list: ChartAccount[]) => {
+    setAccounts(list);
+    saveChartOfAccounts(activeMandate.id, list);
+    if (transformedData) {
+      applyTransformedData(transformedData, list);
+    }
+  };
+
+  const handleSummaryCategoriesSaved = (categories: SummaryCategoryDefinition[]) => {
+    if (transformedData) {
+      applyTransformedData(transformedData, accounts, categories);
+    }
+  };
+
+  // Output file and summary always reflect the current, possibly edited, rows
+  const applyTransformedData = (
+    rows: ExcelRow[],
+    chart: ChartAccount[] = accounts,
+    categories: SummaryCategoryDefinition[] = activeMandate.summaryCategories,
+    balance: BalanceControl | null = balanceControl,
+    excludedBatches: string[] = sessionBatches
+  ): SummaryData => {
+    const exportedBatches = loadExportedBatches(activeMandate.id).filter(batch => !excludedBatches.includes(batch.exportedAt));
+    const summary = generateSummary(rows, chart, categories, exportedBatches, balance);
+    setTransformedData(rows);
+    setOutputWorkbook(createExcelFile(rows, summary));
+    setSummaryData(summary);
+    return summary;
+  };
+
+  const handleBalanceControlChange = (control: BalanceControl | null) => {
+    setBalanceControl(control);
+    if (transformedData) {
+      applyTransformedData(transformedData, accounts, activeMandate.summaryCategories, control);
+    }
+  };
+
+  const handleEntryEdit = (rowIndex: number, column: EditableColumn, value: string) => {
+    if (!transformedData || !validatedRows) return;
+    const options = { debitCreditMode, vatSettings: activeMandate.vatSettings };
+    const entry = updateEntry(transformedData[rowIndex], column, value, options);
+    const rows = transformedData.map((row, i) => (i === rowIndex ? entry : row));
+    // The validation report and the download block follow the corrected rows
+    const input = validatedRows.map((row, i) =>
+      i === entryIndexes[rowIndex] ? applyEntryEditToInput(row, entry, column, debitCreditMode) : row
+    );
+    setUndoStack(prev => [...prev, { rows: transformedData, input: validatedRows }]);
+    setRedoStack([]);
+    setInputRows(input);
+    applyTransformedData(rows);
+  };
+
+  const handleUndo = () => {
+    if (!transformedData || !validatedRows || undoStack.length === 0) return;
+    const previous = undoStack[undoStack.length - 1];
+    setRedoStack(prev => [...prev, { rows: transformedData, input: validatedRows }]);
+    setUndoStack(prev => prev.slice(0, -1));
+    setInputRows(previous.input);
+    applyTransformedData(previous.rows);
+  };
+
+  const handleRedo = () => {
+    if (!transformedData || !validatedRows || redoStack.length === 0) return;
+    const next = redoStack[redoStack.length - 1];
+    setUndoStack(prev => [...prev, { rows: transformedData, input: validatedRows }]);
+    setRedoStack(prev => prev.slice(0, -1));
+    setInputRows(next.input);
+    applyTransformedData(next.rows);
+  };
+
   const handleTransform = () => {
     if (!jsonData) {
       toast({
@@ -58,19 +241,40 @@ const Index = () => {
     // Small delay to show loading state
     setTimeout(() => {
       try {
-        const transformed = transformData(jsonData);
-        setTransformedData(transformed);
-        
-        const newWorkbook = createExcelFile(transformed);
-        setOutputWorkbook(newWorkbook);
-        
-        const summary = generateSummary(transformed);
-        setSummaryData(summary);
-        
-        toast({
-          title: "Transformation réussie",
-          description: `${transformed.length} lignes transformées.`,
+        const transformed = transformData(jsonData, {
+          debitCreditMode,
+          vatSettings: activeMandate.vatSettings,
+          mandantNumber: activeMandate.mandantNumber
         });
+        const summary = applyTransformedData(transformed);
+        setInputRows(null);
+        setEntryIndexes(entryInputIndexes(jsonData));
+        setUndoStack([]);
+        setRedoStack([]);
+        
+        if (summary.collectiveEntries.unbalanced.length > 0) {
+          toast({
+            title: "Écritures collectives déséquilibrées",
+            description: `${summary.collectiveEntries.unbalanced.length} écriture(s) collective(s) ne sont pas équilibrées, vérifiez le résumé.`,
+            variant: "destructive",
+          });
+        } else if (summary.duplicates.length > 0) {
+          toast({
+            title: "Doublons possibles",
+            description: `${summary.duplicates.length} ligne(s) déjà présente(s) dans le fichier ou dans un export précédent, vérifiez le résumé.`,
+            variant: "destructive",
+          });
+        } else if (summary.vatWarnings.length > 0) {
+          toast({
+            title: "Transformation réussie avec avertissements",
+            description: `${transformed.length} lignes transformées, ${summary.vatWarnings.length} code(s) TVA à vérifier.`,
+          });
+        } else {
+          toast({
+            title: "Transformation réussie",
+            description: `${transformed.length} lignes transformées.`,
+          });
+        }
 
         // Move to summary tab
         setActiveTab("summary");
@@ -97,11 +301,37 @@ const Index = () => {
       return;
     }
 
-    downloadExcelFile(outputWorkbook);
+    if (isDownloadBlocked) {
+      toast({
+        title: "Téléchargement bloqué",
+        description: `${validationReport.errorCount} erreur(s) de validation à corriger dans l'aperçu ou le fichier source.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (summaryData && summaryData.duplicates.length > 0) {
+      setConfirmDuplicatesOpen(true);
+      return;
+    }
+    generateDownload();
+  };
+
+  const generateDownload = () => {
+    const fileName = `F11_Ecritures.${exportFormat}`;
+
+    // AbaConnect XML is imported directly into FIBU, without the Excel interface
+    const content = exportFormat === 'xml'
+      ? downloadXmlFile(generateFibuXml(transformedData), fileName)
+      : downloadExcelFile(outputWorkbook, fileName);
+    // Re-importing these lines later is reported as duplicates, downloading them again from this session is not
+    const batch = recordExportedBatch(activeMandate.id, fileName, transformedData);
+    setSessionBatches(prev => [...prev, batch.exportedAt]);
+    recordExport({ fileName, page: 'F11', content, ...describeF11Export(transformedData) }, activeMandate);
     
     toast({
       title: "Téléchargement lancé",
-      description: "Le fichier F11_Ecritures.xlsx a été téléchargé.",
+      description: `Le fichier ${fileName} a été téléchargé.`,
     });
   };
 
@@ -120,11 +350,15 @@ const Index = () => {
   };
 
   const resetForm = () => {
-    setWorkbook(null);
     setJsonData(null);
     setTransformedData(null);
     setOutputWorkbook(null);
     setSummaryData(null);
+    setUndoStack([]);
+    setRedoStack([]);
+    setAllowDownloadWithErrors(false);
+    setDebitCreditMode('sign');
+    setBalanceControl(null);
     setActiveTab("upload");
   };
 
@@ -167,6 +401,7 @@ const Index = () => {
                 Convertisseur CAMT vers Excel
               </Button>
             </Link>
+            <VatCodeSettings />
           </div>
         </div>
 
@@ -212,6 +447,10 @@ const Index = () => {
                       </h3>
                       <p className="text-sm text-blue-700 mb-4">
                         Le fichier Excel doit contenir les colonnes suivantes : <strong>Date, Compte, Contrepartie, Texte1, Montant, Code TVA</strong>.
+                        Les montants positifs sont acceptés avec une colonne <strong>D/C</strong>, ou des colonnes <strong>Débit</strong> et <strong>Crédit</strong> à la place de Montant.
+                        Pour les écritures en devises, ajoutez les colonnes <strong>Devise</strong>, <strong>Cours</strong> et <strong>Montant ME</strong> (le montant CHF est calculé s'il manque).
+                        Les lignes partageant une même valeur dans la colonne <strong>Groupe</strong> forment une écriture collective.
+                        Plusieurs fichiers ou feuilles peuvent être importés ensemble, chaque ligne garde sa source (fichier, feuille, ligne).
                       </p>
                       
                       <div className="space-y-4">
@@ -235,6 +474,14 @@ const Index = () => {
                     </div>
 
                     <FileUpload onFileLoaded={handleFileLoaded} />
+                    {pendingImport && (
+                      <ColumnMappingStep
+                        key={pendingImport.sources.join('|')}
+                        data={pendingImport.data}
+                        onApply={handleColumnsMapped}
+                        onCancel={() => setPendingImport(null)}
+                      />
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -268,6 +515,47 @@ const Index = () => {
                     </div>
                   </div>
 
+                  <div className="mb-6 space-y-2">
+                    <Label className="text-sm font-medium text-gray-900">Sens débit / crédit</Label>
+                    <Select value={debitCreditMode} onValueChange={(value) => handleDebitCreditModeChange(value as DebitCreditMode)}>
+                      <SelectTrigger className="w-full sm:w-96">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="sign">Signe du montant (Montant négatif = crédit)</SelectItem>
+                        <SelectItem value="column">Montants positifs avec colonne D/C</SelectItem>
+                        <SelectItem value="split">Colonnes Débit et Crédit séparées</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="mb-6">
+                    <CostCentreList costCentres={costCentres} onChange={handleCostCentresChange} />
+                  </div>
+
+                  <div className="mb-6">
+                    <ChartOfAccountsList accounts={accounts} onChange={handleAccountsChange} />
+                  </div>
+
+                  {validatedRows && validationReport && (
+                    <div className="mb-6 space-y-3">
+                      <h3 className="text-sm font-medium text-gray-900">Contrôle des données</h3>
+                      <ValidationReportTable data={validatedRows} report={validationReport} />
+                      {validationReport.errorCount > 0 && (
+                        <div className="flex items-center space-x-2">
+                          <Switch
+                            id="allow-errors"
+                            checked={allowDownloadWithErrors}
+                            onCheckedChange={setAllowDownloadWithErrors}
+                          />
+                          <Label htmlFor="allow-errors" className="text-sm">
+                            Autoriser le téléchargement malgré les erreurs
+                          </Label>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
                   <div className="flex flex-col sm:flex-row gap-4 justify-between">
                     <Button 
                       onClick={() => setActiveTab("upload")}
@@ -298,21 +586,45 @@ const Index = () => {
               <div className="space-y-6">
                 <Card>
                   <CardHeader>
-                    <CardTitle>Résultat de la transformation</CardTitle>
-                    <CardDescription>
-                      Voici le résumé des données transformées au format Abacus
-                    </CardDescription>
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <CardTitle>Résultat de la transformation</CardTitle>
+                        <CardDescription>
+                          Voici le résumé des données transformées au format Abacus
+                        </CardDescription>
+                      </div>
+                      <SummaryCategorySettings onSaved={handleSummaryCategoriesSaved} />
+                    </div>
                   </CardHeader>
                   
                   <CardContent>
                     {summaryData && <TransformationSummary summaryData={summaryData} />}
+                    <Separator className="my-6" />
+                    <BankBalanceControl value={balanceControl} onChange={handleBalanceControlChange} />
                   </CardContent>
                   
                   <CardFooter className="flex flex-col items-stretch space-y-4">
+                    {isDownloadBlocked && (
+                      <div className="p-3 bg-red-50 text-red-700 rounded text-sm">
+                        Les écritures contiennent {validationReport.errorCount} erreur(s) bloquante(s). Corrigez-les dans l'aperçu ou autorisez le téléchargement à l'étape Transformation.
+                      </div>
+                    )}
+                    <div className="flex items-center gap-3">
+                      <Label className="text-sm whitespace-nowrap">Format d'export</Label>
+                      <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as 'xlsx' | 'xml')}>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="xlsx">Excel F11 (import via l'interface Excel d'Abacus)</SelectItem>
+                          <SelectItem value="xml">XML AbaConnect FIBU (écritures)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
                     <Button 
                       onClick={handleDownload}
                       className="w-full"
-                      disabled={!outputWorkbook}
+                      disabled={!outputWorkbook || isDownloadBlocked}
                     >
                       <svg 
                         xmlns="http://www.w3.org/2000/svg" 
@@ -328,8 +640,35 @@ const Index = () => {
                           d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" 
                         />
                       </svg>
-                      Télécharger F11_Ecritures.xlsx
+                      Télécharger F11_Ecritures.{exportFormat}
                     </Button>
+
+                    <AlertDialog open={confirmDuplicatesOpen} onOpenChange={setConfirmDuplicatesOpen}>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Doublons possibles</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            {summaryData?.duplicates.length} ligne(s) ont la même date, le même compte et le même montant
+                            qu'une autre ligne du fichier ou d'un export précédent de ce mandat. Générez le fichier
+                            uniquement si ces écritures doivent bien être comptabilisées deux fois.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <div className="max-h-48 overflow-y-auto space-y-1">
+                          {summaryData?.duplicates.map(duplicate => (
+                            <p key={duplicate.rowIndex} className="text-xs text-gray-700">
+                              Écriture {duplicate.rowNumber} du {duplicate.date} : {duplicate.texte || 'sans texte'}
+                              <span className="text-gray-500"> ({duplicate.kind === 'exact' ? 'identique' : 'semblable'} à {duplicate.matchedWith})</span>
+                            </p>
+                          ))}
+                        </div>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Annuler</AlertDialogCancel>
+                          <AlertDialogAction onClick={generateDownload}>
+                            Générer quand même
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
                     
                     <Button 
                       onClick={resetForm}
@@ -354,6 +693,28 @@ const Index = () => {
                     </Button>
                   </CardFooter>
                 </Card>
+
+                {transformedData && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Aperçu des écritures</CardTitle>
+                      <CardDescription>
+                        Corrigez les écritures avant de télécharger le fichier F11
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <EntryPreviewGrid
+                        data={transformedData}
+                        accounts={accounts}
+                        onEdit={handleEntryEdit}
+                        onUndo={handleUndo}
+                        onRedo={handleRedo}
+                        canUndo={undoStack.length > 0}
+                        canRedo={redoStack.length > 0}
+                      />
+                    </CardContent>
+                  </Card>
+                )}
               </div>
             </TabsContent>
           </div>
@@ -0,0 +1,345 @@
+import React, { ChangeEvent, useMemo, useRef, useState } from 'react';
+import * as XLSX from 'xlsx';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "@/components/ui/use-toast";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from "@/components/ui/alert-dialog";
+import { Download, FileSpreadsheet, FileText, Link2 } from 'lucide-react';
+import { useMandate } from '@/hooks/use-mandate';
+import { CamtData, processCamtFiles } from '@/utils/camtUtils';
+import {
+  matchedPaymentRows,
+  matchPayments,
+  MatchStatus,
+  matchStatusLabels,
+  OpenItem,
+  readOpenItems
+} from '@/utils/reconciliationUtils';
+import {
+  createExcelFile,
+  describeF11Export,
+  downloadExcelFile,
+  ExcelRow,
+  generateSummary,
+  SummaryData,
+  transformData
+} from '@/utils/excelUtils';
+import { recordExport } from '@/utils/exportHistoryUtils';
+import { loadChartOfAccounts } from '@/utils/accountUtils';
+import { loadExportedBatches, recordExportedBatch } from '@/utils/duplicateUtils';
+
+const STATUS_STYLES: Record<MatchStatus, string> = {
+  exact: "bg-green-50 text-green-700",
+  partial: "bg-orange-50 text-orange-700",
+  overpaid: "bg-blue-50 text-blue-700",
+  amount: "bg-yellow-50 text-yellow-800",
+  foreign: "bg-purple-50 text-purple-700",
+  unmatched: "bg-gray-100 text-gray-700"
+};
+
+const STATUSES: MatchStatus[] = ['exact', 'partial', 'overpaid', 'amount', 'foreign', 'unmatched'];
+
+const formatAmount = (value: number): string => {
+  return new Intl.NumberFormat('fr-CH', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(value);
+};
+
+const PaymentReconciliation: React.FC = () => {
+  const { activeMandate } = useMandate();
+  const [openItems, setOpenItems] = useState<OpenItem[] | null>(null);
+  const [openItemsFileName, setOpenItemsFileName] = useState('');
+  const [payments, setPayments] = useState<CamtData[] | null>(null);
+  const [camtFileCount, setCamtFileCount] = useState(0);
+  // Export with possible duplicates, generated only once confirmed
+  const [pendingExport, setPendingExport] = useState<{ outputData: ExcelRow[]; summary: SummaryData } | null>(null);
+  const openItemsInputRef = useRef<HTMLInputElement>(null);
+  const camtInputRef = useRef<HTMLInputElement>(null);
+
+  const result = useMemo(
+    () => (openItems && payments ? matchPayments(payments, openItems) : null),
+    [openItems, payments]
+  );
+
+  const handleOpenItems = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+      const items = readOpenItems(workbook);
+      setOpenItems(items);
+      setOpenItemsFileName(file.name);
+      toast({
+        title: "Postes ouverts chargés",
+        description: `${items.length} facture(s) avec référence dans ${file.name}.`,
+      });
+    } catch (err) {
+      toast({
+        title: "Liste illisible",
+        description: (err as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCamtFiles = async (e: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    try {
+      const parsed = await processCamtFiles(files);
+      setPayments(parsed.allData);
+      setCamtFileCount(parsed.totalFiles);
+      toast({
+        title: "Fichiers CAMT chargés",
+        description: `${parsed.allData.filter(row => row.creditDebit !== 'DBIT').length} paiement(s) reçu(s) dans ${parsed.totalFiles} fichier(s).`,
+      });
+    } catch (err) {
+      toast({
+        title: "Fichier CAMT illisible",
+        description: (err as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Matched payments through the F11 pipeline, booked against the debtor collective account
+  const handleExport = () => {
+    if (!result) return;
+
+    const rows = matchedPaymentRows(result.matches, activeMandate.bankAccount, activeMandate.collectiveAccount);
+    if (rows.length === 0) {
+      toast({
+        title: "Aucun paiement rapproché",
+        description: "Aucune écriture à exporter.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const outputData = transformData(rows, {
+        vatSettings: activeMandate.vatSettings,
+        mandantNumber: activeMandate.mandantNumber
+      });
+      const summary = generateSummary(
+        outputData,
+        loadChartOfAccounts(activeMandate.id),
+        activeMandate.summaryCategories,
+        loadExportedBatches(activeMandate.id)
+      );
+
+      if (summary.duplicates.length > 0) {
+        setPendingExport({ outputData, summary });
+        return;
+      }
+      generateExport(outputData, summary);
+    } catch (error) {
+      toast({
+        title: "Erreur",
+        description: error instanceof Error ? error.message : "Impossible d'exporter les paiements rapprochés.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const generateExport = (outputData: ExcelRow[], summary: SummaryData) => {
+    setPendingExport(null);
+
+    try {
+      const dateStr = new Date().toISOString().split('T')[0].replace(/-/g, '.');
+      const filename = `F11_Paiements_Debiteurs_${dateStr}.xlsx`;
+      const content = downloadExcelFile(createExcelFile(outputData, summary), filename);
+      recordExport({ fileName: filename, page: 'RECO', content, ...describeF11Export(outputData) }, activeMandate);
+      // Payments of an overlapping CAMT file exported later are reported as duplicates
+      recordExportedBatch(activeMandate.id, filename, outputData);
+
+      const byAmount = countByStatus('amount');
+      toast({
+        title: "Paiements exportés",
+        description: [
+          `${outputData.length} paiement(s) rapproché(s) dans ${filename}.`,
+          byAmount > 0 ? `${byAmount} rapproché(s) par le montant seul, à vérifier.` : ''
+        ].filter(Boolean).join(' '),
+      });
+    } catch (error) {
+      toast({
+        title: "Erreur",
+        description: error instanceof Error ? error.message : "Impossible d'exporter les paiements rapprochés.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const countByStatus = (status: MatchStatus) => result?.matches.filter(match => match.status === status).length ?? 0;
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="max-w-6xl mx-auto space-y-8">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            Rapprochement des paiements débiteurs
+          </h1>
+          <p className="text-gray-600">
+            Paiements reçus des fichiers CAMT rapprochés des factures ouvertes par référence QR/SCOR, à défaut par montant
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <FileSpreadsheet className="h-5 w-5" />
+                Postes ouverts
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <p className="text-sm text-gray-600">
+                Liste Excel des factures ouvertes ou fichier d'entrée de DebFactManager
+                (colonnes « Référence Paiement » et « Total à payer » ou montant).
+              </p>
+              <input type="file" ref={openItemsInputRef} onChange={handleOpenItems} accept=".xlsx,.xls" className="hidden" />
+              <Button variant="outline" onClick={() => openItemsInputRef.current?.click()}>
+                Charger la liste
+              </Button>
+              {openItems && (
+                <p className="text-sm text-green-700">{openItemsFileName} : {openItems.length} facture(s)</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <FileText className="h-5 w-5" />
+                Paiements CAMT
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <p className="text-sm text-gray-600">
+                Avis camt.054 ou relevés camt.053 contenant les références des paiements reçus.
+              </p>
+              <input type="file" ref={camtInputRef} onChange={handleCamtFiles} accept=".xml" multiple className="hidden" />
+              <Button variant="outline" onClick={() => camtInputRef.current?.click()}>
+                Charger les fichiers CAMT
+              </Button>
+              {payments && (
+                <p className="text-sm text-green-700">{camtFileCount} fichier(s), {payments.length} transaction(s)</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {result && (
+          <Card className="animate-fade-in">
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <Link2 className="h-5 w-5" />
+                Rapprochement
+              </CardTitle>
+              <Button onClick={handleExport} className="flex items-center gap-2">
+                <Download className="h-4 w-4" />
+                Exporter les paiements rapprochés (F11)
+              </Button>
+              <AlertDialog open={!!pendingExport} onOpenChange={(open) => !open && setPendingExport(null)}>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Doublons possibles</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      {pendingExport?.summary.duplicates.length} paiement(s) ont la même date, le même compte et le même montant
+                      qu'une ligne de l'export ou d'un export précédent du mandat, détaillés dans le résumé.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Annuler</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => pendingExport && generateExport(pendingExport.outputData, pendingExport.summary)}>
+                      Exporter quand même
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-4">
+                {STATUSES.map(status => (
+                  <div key={status} className={`p-4 rounded-lg text-center ${STATUS_STYLES[status]}`}>
+                    <p className="text-sm">{matchStatusLabels[status]}</p>
+                    <p className="text-2xl font-bold">{countByStatus(status)}</p>
+                  </div>
+                ))}
+                <div className="p-4 rounded-lg text-center bg-red-50 text-red-700">
+                  <p className="text-sm">Factures sans paiement</p>
+                  <p className="text-2xl font-bold">{result.remainingItems.length}</p>
+                </div>
+              </div>
+
+              {result.matches.length === 0 ? (
+                <p className="text-sm text-gray-500">Aucun paiement reçu dans les fichiers CAMT.</p>
+              ) : (
+                <div className="max-h-[500px] overflow-auto border rounded-lg">
+                  <Table>
+                    <TableHeader className="sticky top-0 bg-white">
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Débiteur</TableHead>
+                        <TableHead>Référence</TableHead>
+                        <TableHead className="text-right">Payé</TableHead>
+                        <TableHead>Facture</TableHead>
+                        <TableHead className="text-right">Ouvert</TableHead>
+                        <TableHead className="text-right">Écart</TableHead>
+                        <TableHead>Statut</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {result.matches.map((match, index) => (
+                        <TableRow key={index}>
+                          <TableCell className="text-xs whitespace-nowrap">{match.payment.dateComptabilisation}</TableCell>
+                          <TableCell className="text-xs max-w-40 truncate" title={match.payment.nomDebiteur}>
+                            {match.payment.nomDebiteur}
+                          </TableCell>
+                          <TableCell className="text-xs font-mono">{match.reference || '—'}</TableCell>
+                          <TableCell className="text-xs text-right">{formatAmount(match.amount)}</TableCell>
+                          <TableCell className="text-xs">
+                            {match.item ? `${match.item.invoiceNumber}${match.item.customer ? ` (${match.item.customer})` : ''}` : '—'}
+                          </TableCell>
+                          <TableCell className="text-xs text-right">{match.item ? formatAmount(match.openBefore) : ''}</TableCell>
+                          <TableCell className="text-xs text-right">
+                            {match.item && match.difference !== 0 ? formatAmount(match.difference) : ''}
+                          </TableCell>
+                          <TableCell>
+                            <span className={`text-xs px-2 py-0.5 rounded-full ${STATUS_STYLES[match.status]}`}>
+                              {matchStatusLabels[match.status]}
+                            </span>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+
+              <p className="text-xs text-gray-500">
+                L'export contient les paiements exacts, partiels, excédentaires et rapprochés par le montant seul (à vérifier) :
+                compte bancaire {activeMandate.bankAccount} au débit, compte collectif débiteurs {activeMandate.collectiveAccount} au crédit.
+                Les paiements en devise étrangère ne sont pas comparés aux factures en CHF ni exportés.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PaymentReconciliation;
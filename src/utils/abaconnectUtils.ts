@@ -0,0 +1,164 @@
+import { BASE_CURRENCY, ExcelRow, signedAmount } from './excelUtils';
+import { abacusDateToIso } from './dateUtils';
+
+export const escapeXml = (unsafe: string): string => {
+  if (!unsafe) return '';
+  return String(unsafe)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+};
+
+const formatAmount = (value: unknown): string => Math.abs(parseFloat(String(value)) || 0).toFixed(2);
+
+const oppositeSide = (side: 'D' | 'C'): 'D' | 'C' => (side === 'D' ? 'C' : 'D');
+
+// Booked side of the "Compte" of an F11 row, sign-mode rows carry it in the sign of the amount
+const accountSide = (row: ExcelRow): 'D' | 'C' => (signedAmount(row) < 0 ? 'C' : 'D');
+
+// Cost centre levels of one side of an F11 row, 0 meaning none
+const costCentreXml = (row: ExcelRow, counterPart: boolean, indent: string): string => {
+  let xml = '';
+  [1, 2, 3].forEach(level => {
+    const column = counterPart ? `Contrepartie niveau d'imputation ${level}` : `Niveau d'imputation ${level}`;
+    const value = row[column];
+    if (value) {
+      xml += `${indent}<CostCentre${level}>${escapeXml(String(value))}</CostCentre${level}>\n`;
+    }
+  });
+  return xml;
+};
+
+// Amount, key amount (CHF) and currency of one line
+const amountXml = (row: ExcelRow, indent: string): string => {
+  const currency = row["ISO"] || BASE_CURRENCY;
+  const isForeign = currency !== BASE_CURRENCY;
+  let xml = `${indent}<Currency>${currency}</Currency>\n`;
+  xml += `${indent}<Amount>${formatAmount(isForeign ? row["Montant ME"] : row["Montant"])}</Amount>\n`;
+  xml += `${indent}<KeyAmount>${formatAmount(row["Montant"])}</KeyAmount>\n`;
+  if (isForeign) {
+    xml += `${indent}<ExchangeRate>${row["Cours"]}</ExchangeRate>\n`;
+  }
+  return xml;
+};
+
+const taxDataXml = (row: ExcelRow, isoDate: string, indent: string): string => {
+  if (row["Code TVA"] === undefined || row["Code TVA"] === null || row["Code TVA"] === "") return '';
+
+  let xml = `${indent}<TaxData mode="SAVE">\n`;
+  xml += `${indent}  <TaxIncluded>${row["TVA incl."]}</TaxIncluded>\n`;
+  xml += `${indent}  <TaxType>${row["Type TVA"]}</TaxType>\n`;
+  xml += `${indent}  <TaxMethod>${row["Méthode TVA"]}</TaxMethod>\n`;
+  xml += `${indent}  <TaxCode>${escapeXml(String(row["Code TVA"]))}</TaxCode>\n`;
+  xml += `${indent}  <TaxRate>${row["Taux TVA"]}</TaxRate>\n`;
+  xml += `${indent}  <TaxCoefficient>${row["Coeff. TVA"]}</TaxCoefficient>\n`;
+  xml += `${indent}  <Country>${row["Pays de TVA"] || 'CH'}</Country>\n`;
+  xml += `${indent}  <TaxAccount>${row["Contrepartie TVA"]}</TaxAccount>\n`;
+  xml += `${indent}  <TaxAmount>${formatAmount(row["Montant TVA"])}</TaxAmount>\n`;
+  if (row["TVA montant ME"]) {
+    xml += `${indent}  <TaxAmountForeignCurrency>${formatAmount(row["TVA montant ME"])}</TaxAmountForeignCurrency>\n`;
+  }
+  xml += `${indent}  <TaxDateValidFrom>${isoDate}</TaxDateValidFrom>\n`;
+  xml += `${indent}</TaxData>\n`;
+  return xml;
+};
+
+// Line booked on the "Compte" of an F11 row, VAT and cost centres included
+const singleLineXml = (row: ExcelRow, isoDate: string): string => {
+  let xml = '        <SingleInformation mode="SAVE">\n';
+  xml += `          <DebitCredit>${accountSide(row)}</DebitCredit>\n`;
+  xml += `          <Account>${escapeXml(String(row["Compte"]))}</Account>\n`;
+  xml += amountXml(row, '          ');
+  xml += `          <Text1>${escapeXml(String(row["Texte1"] || ''))}</Text1>\n`;
+  xml += costCentreXml(row, false, '          ');
+  xml += taxDataXml(row, isoDate, '          ');
+  xml += '        </SingleInformation>\n';
+  return xml;
+};
+
+// Line booked on the "Contrepartie" of an F11 row inside a collective entry
+const counterLineXml = (row: ExcelRow): string => {
+  let xml = '        <SingleInformation mode="SAVE">\n';
+  xml += `          <DebitCredit>${oppositeSide(accountSide(row))}</DebitCredit>\n`;
+  xml += `          <Account>${escapeXml(String(row["Contrepartie"]))}</Account>\n`;
+  xml += amountXml(row, '          ');
+  xml += `          <Text1>${escapeXml(String(row["Texte1"] || ''))}</Text1>\n`;
+  xml += costCentreXml(row, true, '          ');
+  xml += '        </SingleInformation>\n';
+  return xml;
+};
+
+// AbaConnect FIBU journal entries ("Buchungen") from the transformed F11 rows.
+// A simple entry books its counter-account in the collective part and its account, with VAT,
+// in the single part; a collective entry has one single part per account line.
+export const generateFibuXml = (outputData: ExcelRow[]): string => {
+  const entries = new Map<number, ExcelRow[]>();
+  outputData.forEach(row => {
+    const entryNumber = row["N° enregistrement"];
+    entries.set(entryNumber, [...(entries.get(entryNumber) || []), row]);
+  });
+
+  let xml = '<?xml version="1.0" encoding="utf-8"?>\n';
+  xml += '<AbaConnectContainer>\n';
+  xml += '  <Task>\n';
+  xml += '    <Parameter>\n';
+  xml += '      <Application>FIBU</Application>\n';
+  xml += '      <Id>Buchungen</Id>\n';
+  xml += '      <MapId>AbaDefault</MapId>\n';
+  xml += '      <Version>2015.00</Version>\n';
+  xml += '    </Parameter>\n';
+  xml += '    <Transaction id="1">\n';
+
+  entries.forEach((rows, entryNumber) => {
+    const firstRow = rows[0];
+    const isoDate = abacusDateToIso(String(firstRow["Date"] || ''));
+    const isCollective = rows.some(row => row["Position coll."] > 0);
+
+    xml += '      <Entry mode="SAVE">\n';
+    xml += '        <CollectiveInformation mode="SAVE">\n';
+    xml += `          <EntryNumber>${entryNumber}</EntryNumber>\n`;
+    xml += `          <EntryType>${isCollective ? 'C' : 'S'}</EntryType>\n`;
+    xml += `          <EntryDate>${isoDate}</EntryDate>\n`;
+    if (firstRow["N° mandant"]) {
+      xml += `          <Client>${escapeXml(String(firstRow["N° mandant"]))}</Client>\n`;
+    }
+    xml += `          <Text1>${escapeXml(String(firstRow["Texte1"] || ''))}</Text1>\n`;
+    if (!isCollective) {
+      xml += `          <DebitCredit>${oppositeSide(accountSide(firstRow))}</DebitCredit>\n`;
+      xml += `          <Account>${escapeXml(String(firstRow["Contrepartie"]))}</Account>\n`;
+      xml += amountXml(firstRow, '          ');
+      xml += costCentreXml(firstRow, true, '          ');
+    }
+    xml += '        </CollectiveInformation>\n';
+
+    rows.forEach(row => {
+      xml += singleLineXml(row, isoDate);
+      if (isCollective && row["Contrepartie"]) {
+        xml += counterLineXml(row);
+      }
+    });
+
+    xml += '      </Entry>\n';
+  });
+
+  xml += '    </Transaction>\n';
+  xml += '  </Task>\n';
+  xml += '</AbaConnectContainer>';
+
+  return xml;
+};
+
+export const downloadXmlFile = (xml: string, filename: string = 'F11_Ecritures.xml'): Blob => {
+  const blob = new Blob([xml], { type: 'application/xml' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+  return blob;
+};
@@ -0,0 +1,122 @@
+import * as XLSX from 'xlsx';
+
+export interface ChartAccount {
+  number: string;
+  name: string;
+  accountClass: number; // 1 = actifs, 2 = passifs, 3 = produits, 4..8 = charges, 9 = clôture
+}
+
+// Classes of the Swiss SME chart of accounts (plan comptable PME)
+export const accountClassNames: Record<number, string> = {
+  1: "Actifs",
+  2: "Passifs",
+  3: "Produits d'exploitation",
+  4: "Charges de matériel et de marchandises",
+  5: "Charges de personnel",
+  6: "Autres charges d'exploitation",
+  7: "Résultat des activités annexes",
+  8: "Résultats hors exploitation",
+  9: "Clôture"
+};
+
+const CHART_STORAGE_KEY_PREFIX = 'exceltoabacus.chartOfAccounts.';
+
+const NAME_HEADER = /nom|libell|désignation|designation|bezeichnung|text|name|description/i;
+const NUMBER_HEADER = /compte|konto|account|nummer|numéro|numero|^n[o°]/i;
+const CLASS_HEADER = /classe|klasse|class/i;
+
+const toAccount = (number: unknown, name: unknown, accountClass?: unknown): ChartAccount | null => {
+  const text = String(number ?? '').trim();
+  if (!/^\d+$/.test(text)) return null;
+  const explicitClass = parseInt(String(accountClass ?? ''), 10);
+  return {
+    number: text,
+    name: String(name ?? '').trim(),
+    // Without a class column the class is the first digit of the account number
+    accountClass: explicitClass >= 1 && explicitClass <= 9 ? explicitClass : parseInt(text[0], 10)
+  };
+};
+
+const uniqueAccounts = (accounts: (ChartAccount | null)[]): ChartAccount[] => {
+  const byNumber = new Map<string, ChartAccount>();
+  accounts.forEach(account => {
+    if (account && !byNumber.has(account.number)) byNumber.set(account.number, account);
+  });
+  return Array.from(byNumber.values());
+};
+
+// Read an Abacus chart of accounts export: columns found by their header (Konto, Bezeichnung, Klasse...),
+// otherwise number in the first column and name in the second
+export const parseChartWorkbook = (workbook: XLSX.WorkBook): ChartAccount[] => {
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  const rows = XLSX.utils.sheet_to_json(sheet, { header: 1 }) as unknown[][];
+  if (rows.length === 0) return [];
+
+  let numberIndex = 0;
+  let nameIndex = 1;
+  let classIndex = -1;
+
+  const headers = (rows[0] || []).map(cell => String(cell ?? '').trim());
+  const hasHeader = headers.length > 0 && !/^\d+$/.test(headers[0]);
+  if (hasHeader) {
+    // The name column is searched first so that "Kontobezeichnung" is not taken for the number
+    nameIndex = headers.findIndex(header => NAME_HEADER.test(header));
+    numberIndex = headers.findIndex((header, i) => i !== nameIndex && NUMBER_HEADER.test(header));
+    classIndex = headers.findIndex((header, i) => i !== nameIndex && i !== numberIndex && CLASS_HEADER.test(header));
+    if (numberIndex < 0) numberIndex = 0;
+    if (nameIndex < 0) nameIndex = numberIndex === 0 ? 1 : 0;
+  }
+
+  return uniqueAccounts(
+    rows
+      .slice(hasHeader ? 1 : 0)
+      .map(row => toAccount(row[numberIndex], row[nameIndex], classIndex >= 0 ? row[classIndex] : undefined))
+  );
+};
+
+const XML_NUMBER_TAGS = ['accountnumber', 'accountno', 'kontonr', 'kontonummer', 'number', 'nummer', 'konto'];
+const XML_NAME_TAGS = ['text', 'text1', 'name', 'description', 'bezeichnung', 'designation'];
+
+// Read an AbaConnect XML export: every element with an account number child and a text child is an account
+export const parseChartXml = (xml: string): ChartAccount[] => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Fichier XML invalide');
+  }
+
+  const childText = (element: Element, tags: string[]): string | undefined => {
+    const child = Array.from(element.children).find(c => tags.includes(c.localName.toLowerCase()));
+    return child && child.children.length === 0 ? child.textContent?.trim() : undefined;
+  };
+
+  return uniqueAccounts(
+    Array.from(doc.getElementsByTagName('*')).map(element => {
+      const number = childText(element, XML_NUMBER_TAGS);
+      return number ? toAccount(number, childText(element, XML_NAME_TAGS)) : null;
+    })
+  );
+};
+
+// Charts are specific to each client, so they are stored per mandate
+export const loadChartOfAccounts = (mandateId: string): ChartAccount[] => {
+  try {
+    const stored = localStorage.getItem(CHART_STORAGE_KEY_PREFIX + mandateId);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Plan comptable illisible:', error);
+    return [];
+  }
+};
+
+export const saveChartOfAccounts = (mandateId: string, accounts: ChartAccount[]): void => {
+  if (accounts.length === 0) {
+    localStorage.removeItem(CHART_STORAGE_KEY_PREFIX + mandateId);
+    return;
+  }
+  localStorage.setItem(CHART_STORAGE_KEY_PREFIX + mandateId, JSON.stringify(accounts));
+};
+
+export const findAccount = (value: unknown, accounts: ChartAccount[]): ChartAccount | undefined => {
+  const number = String(value ?? '').trim();
+  return number ? accounts.find(account => account.number === number) : undefined;
+};
@@ -0,0 +1,195 @@
+import * as XLSX from 'xlsx';
+import { BASE_CURRENCY, currencyColumn, ExcelRow, foreignAmountColumn, requiredHeaders } from './excelUtils';
+import { BankTransaction } from './pdfBankUtils';
+import { CamtData } from './camtUtils';
+import { tryParseDate, formatAbacusDate } from './dateUtils';
+
+export type BookingDirection = 'both' | 'in' | 'out';
+
+// Conditions left empty match every movement; the first matching rule is applied
+export interface BookingRule {
+  name: string;
+  descriptionPattern: string; // regular expression, case insensitive
+  iban: string; // counterparty IBAN
+  counterparty: string; // part of the counterparty name
+  reference: string; // start of the QR/SCOR or bank reference, which often holds the customer number
+  minAmount: number | null; // absolute amount
+  maxAmount: number | null;
+  direction: BookingDirection;
+  compte: string;
+  contrepartie: string;
+  codeTva: string;
+  texte1: string; // empty keeps the description of the movement
+}
+
+// A bank statement line, whatever the converter it comes from
+export interface BankMovement {
+  date: string; // dd.mm.yyyy
+  description: string;
+  amount: number; // positive for money received, negative for payments
+  iban: string;
+  counterparty: string;
+  references: string[]; // QR/SCOR, proprietary and end-to-end references
+  currency: string; // ISO code, empty when the converter does not tell (CHF)
+}
+
+export interface BookingResult {
+  rows: ExcelRow[];
+  matchedCount: number;
+}
+
+export const createBookingRule = (): BookingRule => ({
+  name: '',
+  descriptionPattern: '',
+  iban: '',
+  counterparty: '',
+  reference: '',
+  minAmount: null,
+  maxAmount: null,
+  direction: 'both',
+  compte: '',
+  contrepartie: '',
+  codeTva: '',
+  texte1: ''
+});
+
+const compact = (value: string): string => value.replace(/\s/g, '').toUpperCase();
+
+const buildPattern = (pattern: string): RegExp | null => {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return null;
+  }
+};
+
+// Names of the rules whose description pattern is not a valid regular expression
+export const invalidRulePatterns = (rules: BookingRule[]): string[] => {
+  return rules
+    .filter(rule => rule.descriptionPattern && !buildPattern(rule.descriptionPattern))
+    .map(rule => rule.name || rule.descriptionPattern);
+};
+
+export const matchesRule = (rule: BookingRule, movement: BankMovement): boolean => {
+  const absolute = Math.abs(movement.amount);
+
+  if (rule.direction === 'in' && movement.amount < 0) return false;
+  if (rule.direction === 'out' && movement.amount >= 0) return false;
+  if (rule.minAmount !== null && absolute < rule.minAmount) return false;
+  if (rule.maxAmount !== null && absolute > rule.maxAmount) return false;
+
+  if (rule.descriptionPattern) {
+    const pattern = buildPattern(rule.descriptionPattern);
+    if (!pattern || !pattern.test(movement.description)) return false;
+  }
+
+  if (rule.iban && compact(rule.iban) !== compact(movement.iban)) return false;
+
+  if (rule.reference && !movement.references.some(reference => compact(reference).startsWith(compact(rule.reference)))) {
+    return false;
+  }
+
+  // PDF statements have no separate counterparty, the name is then part of the description
+  if (rule.counterparty) {
+    const name = (movement.counterparty || movement.description).toLowerCase();
+    if (!name.includes(rule.counterparty.trim().toLowerCase())) return false;
+  }
+
+  return true;
+};
+
+export const findBookingRule = (rules: BookingRule[], movement: BankMovement): BookingRule | null => {
+  return rules.find(rule => matchesRule(rule, movement)) || null;
+};
+
+// Account booked against the bank by a rule: the single account given, or the one of two accounts
+// that is not the bank. Null when two accounts are given and neither (or both) is the bank account.
+export const ruleBookingAccount = (rule: BookingRule, bankAccount: string): string | null => {
+  const accounts = [rule.compte.trim(), rule.contrepartie.trim()].filter(Boolean);
+  const others = accounts.filter(account => account !== bankAccount.trim());
+  if (accounts.length === 2 && others.length !== 1) return null;
+  return others[0] || '';
+};
+
+// Names of the rules giving two accounts without the bank account of the mandate
+export const rulesWithoutBankAccount = (rules: BookingRule[], bankAccount: string): string[] => {
+  return rules
+    .filter(rule => ruleBookingAccount(rule, bankAccount) === null)
+    .map(rule => rule.name || `${rule.compte} / ${rule.contrepartie}`);
+};
+
+/**
+ * F11 input line of a movement in sign mode: the rule's account goes to "Compte" and the bank to
+ * "Contrepartie", so that the VAT code applies to the revenue or expense account. Payments are
+ * positive (debit "Compte"), money received is negative (credit "Compte").
+ */
+export const toF11InputRow = (movement: BankMovement, rule: BookingRule | null, bankAccount: string): ExcelRow => {
+  const account = rule ? ruleBookingAccount(rule, bankAccount) || '' : '';
+  const amount = Math.round(-movement.amount * 100) / 100 || 0;
+  const currency = movement.currency.trim().toUpperCase();
+  const foreign = currency !== '' && currency !== BASE_CURRENCY;
+
+  return {
+    "Date": movement.date,
+    "Compte": account,
+    "Contrepartie": bankAccount,
+    "Texte1": rule?.texte1.trim() || movement.description,
+    // Foreign amounts go to "Montant ME": the F11 validation asks for the rate or the CHF amount
+    "Montant": foreign ? "" : amount,
+    "Code TVA": rule?.codeTva.trim() || '',
+    ...(foreign ? { [currencyColumn]: currency, [foreignAmountColumn]: amount } : {})
+  };
+};
+
+// Rules with two accounts of which none is the bank cannot be booked and are skipped
+export const applyBookingRules = (movements: BankMovement[], rules: BookingRule[], bankAccount: string): BookingResult => {
+  const bookable = rules.filter(rule => ruleBookingAccount(rule, bankAccount) !== null);
+  let matchedCount = 0;
+  const rows = movements.map(movement => {
+    const rule = findBookingRule(bookable, movement);
+    if (rule) matchedCount++;
+    return toF11InputRow(movement, rule, bankAccount);
+  });
+  return { rows, matchedCount };
+};
+
+export const movementsFromBankTransactions = (transactions: BankTransaction[]): BankMovement[] => {
+  return transactions.map(transaction => ({
+    date: transaction.date,
+    description: transaction.description,
+    amount: (transaction.credit || 0) - (transaction.debit || 0),
+    iban: '',
+    counterparty: '',
+    references: [],
+    currency: ''
+  }));
+};
+
+// The counterparty of a credit is the debtor, that of a debit the creditor
+export const movementsFromCamtData = (data: CamtData[]): BankMovement[] => {
+  return data.map(row => {
+    const received = row.creditDebit !== 'DBIT';
+    const counterparty = received ? row.nomDebiteur : row.nomCreancier;
+    // Unreadable or missing dates are kept as they are, the F11 validation reports them
+    const date = tryParseDate(row.dateComptabilisation) || tryParseDate(row.dateValeur);
+    return {
+      date: date ? formatAbacusDate(date) : row.dateComptabilisation || row.dateValeur,
+      description: [counterparty, row.communication || row.informationsSupplementaires || row.referenceProprietaire].filter(Boolean).join(' - '),
+      amount: (received ? 1 : -1) * (parseFloat(row.montant) || 0),
+      iban: received ? row.ibanDebiteur : row.ibanCreancier,
+      counterparty,
+      references: [row.referenceStructuree, row.referenceProprietaire, row.endToEndId].filter(Boolean),
+      currency: row.devise
+    };
+  });
+};
+
+// Workbook with the columns of the F11 template, ready to be loaded on the home page
+export const createF11InputWorkbook = (rows: ExcelRow[]): XLSX.WorkBook => {
+  const worksheet = XLSX.utils.json_to_sheet(rows, { header: requiredHeaders });
+  worksheet['!cols'] = [{ wch: 12 }, { wch: 10 }, { wch: 12 }, { wch: 60 }, { wch: 14 }, { wch: 10 }];
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, 'Ecritures');
+  return workbook;
+};
@@ -1,4 +1,5 @@
 import * as XLSX from 'xlsx';
+import { BankBalanceControl } from './excelUtils';
 
 export interface CamtData {
   montant: string;
@@ -14,16 +15,45 @@ export interface CamtData {
   instructionId: string;
   banqueDebiteur: string;
   informationsSupplementaires: string;
+  nomCreancier: string;
+  communication: string; // unstructured remittance information
+  referenceStructuree: string; // QR or SCOR creditor reference
+  codeDomaine: string; // bank transaction code, e.g. PMNT
+  codeFamille: string; // e.g. RCDT
+  codeSousFamille: string; // e.g. VCOM
+  frais: string;
+  ibanCompte: string;
+  idReleve: string;
 }
 
 export const camtHeaders = [
   "Montant", "Devise", "Crédit/Débit", "Date de comptabilisation", "Date de valeur",
   "Nom du débiteur", "IBAN du débiteur", "IBAN du créancier",
   "Référence propriétaire", "EndToEndId", "InstructionId",
-  "Banque du débiteur", "Informations supplémentaires"
+  "Banque du débiteur", "Informations supplémentaires",
+  "Nom du créancier", "Communication", "Référence structurée (QR/SCOR)",
+  "Domaine", "Famille", "Sous-famille", "Frais",
+  "IBAN du compte", "Identifiant du relevé"
 ];
 
-const ns = "urn:iso:std:iso:20022:tech:xsd:camt.054.001.04";
+// camt.052 intraday report, camt.053 end-of-day statement, camt.054 debit/credit notification
+export type CamtMessageType = 'camt.052' | 'camt.053' | 'camt.054';
+
+export const camtMessageLabels: Record<CamtMessageType, string> = {
+  'camt.052': "Relevé intrajournalier",
+  'camt.053': "Relevé de compte",
+  'camt.054': "Avis de débit/crédit"
+};
+
+// Message versions ("camt.053.001.04") the converter is built for
+export const SUPPORTED_CAMT_VERSIONS = ['04', '05', '06', '07', '08'];
+
+// Element under the document root, and element of each statement, per message type
+const CAMT_MESSAGES: { type: CamtMessageType; root: string; statement: string }[] = [
+  { type: 'camt.052', root: 'BkToCstmrAcctRpt', statement: 'Rpt' },
+  { type: 'camt.053', root: 'BkToCstmrStmt', statement: 'Stmt' },
+  { type: 'camt.054', root: 'BkToCstmrDbtCdtNtfctn', statement: 'Ntfctn' }
+];
 
 function getElementText(element: Element | null): string {
   return element?.textContent?.trim() || "";
@@ -71,92 +101,320 @@ function findAllElementsNS(parent: Element, selector: string): Element[] {
   return elements;
 }
 
-export function parseCamtXml(xmlString: string): CamtData[] {
+export interface StatementBalances {
+  iban: string;
+  opening: number | null;
+  closing: number | null;
+}
+
+// Statement-level data of a Stmt, Rpt or Ntfctn element
+export interface CamtStatement extends StatementBalances {
+  id: string;
+  entryCount: number;
+}
+
+// Batch entry whose transaction amounts do not add up to the booked amount
+export interface CamtAmountDiscrepancy {
+  idReleve: string;
+  reference: string; // NtryRef or AcctSvcrRef of the entry
+  dateComptabilisation: string;
+  montantEcriture: number;
+  totalTransactions: number; // transactions on the other side than the entry count negative
+  transactionCount: number;
+  missingAmounts: number; // transactions without an amount of their own
+}
+
+export interface CamtFile {
+  fileName: string;
+  messageType: CamtMessageType;
+  version: string; // "04" for camt.053.001.04, empty when the namespace does not tell
+  supportedVersion: boolean;
+  statements: CamtStatement[];
+  data: CamtData[];
+  discrepancies: CamtAmountDiscrepancy[];
+}
+
+// Signed amount of a Bal element, debit balances are negative
+function balanceAmount(balance: Element): number {
+  const amount = parseFloat(getElementText(findElementNS(balance, 'Amt'))) || 0;
+  return getElementText(findElementNS(balance, 'CdtDbtInd')) === 'DBIT' ? -amount : amount;
+}
+
+// Opening (OPBD, or PRCD the previous closing) and closing (CLBD, or ITBD for intraday reports)
+// booked balances; notifications have none
+function readBalances(statement: Element): Pick<StatementBalances, 'opening' | 'closing'> {
+  const balances = Array.from(statement.children).filter(child => child.localName === 'Bal');
+  const byCode = (codes: string[]) => {
+    for (const code of codes) {
+      const balance = balances.find(b => getElementText(findElementNS(b, 'Tp/CdOrPrtry/Cd')) === code);
+      if (balance) return balanceAmount(balance);
+    }
+    return null;
+  };
+
+  return {
+    opening: byCode(['OPBD', 'PRCD']),
+    closing: byCode(['CLBD', 'ITBD'])
+  };
+}
+
+// Message type from the namespace, e.g. urn:iso:std:iso:20022:tech:xsd:camt.053.001.04,
+// or from the element under the document root when the namespace is missing
+function detectCamtMessage(root: Element): { type: CamtMessageType; version: string } {
+  const namespace = root.namespaceURI || root.getAttribute('xmlns') || '';
+  const match = /camt\.(05[234])\.001\.(\d{2})/.exec(namespace);
+  if (match) {
+    return { type: `camt.${match[1]}` as CamtMessageType, version: match[2] };
+  }
+
+  const message = CAMT_MESSAGES.find(m => findElementNS(root, m.root));
+  if (!message) {
+    throw new Error("Le fichier n'est pas un message camt.052, camt.053 ou camt.054");
+  }
+  return { type: message.type, version: '' };
+}
+
+// Party name, directly under the role up to .07 and under Pty from .08
+function partyName(tx: Element, role: 'Dbtr' | 'Cdtr'): string {
+  return getElementText(findElementNS(tx, `RltdPties/${role}/Nm`)) || getElementText(findElementNS(tx, `RltdPties/${role}/Pty/Nm`));
+}
+
+// Domain, family and sub-family of the transaction, or of the entry when the transaction has none
+function bankTransactionCode(tx: Element | null, entry: Element): Pick<CamtData, 'codeDomaine' | 'codeFamille' | 'codeSousFamille'> {
+  const domain = (tx && findElementNS(tx, 'BkTxCd/Domn')) || findElementNS(entry, 'BkTxCd/Domn');
+  return {
+    codeDomaine: getElementText(domain && findElementNS(domain, 'Cd')),
+    codeFamille: getElementText(domain && findElementNS(domain, 'Fmly/Cd')),
+    codeSousFamille: getElementText(domain && findElementNS(domain, 'Fmly/SubFmlyCd'))
+  };
+}
+
+// Total of the charge records, or the total given by the bank; empty when there are no charges
+function chargesAmount(element: Element): string {
+  const charges = findElementNS(element, 'Chrgs');
+  if (!charges) return '';
+  const total = getElementText(findElementNS(charges, 'TtlChrgsAndTaxAmt'));
+  if (total) return total;
+  const records = Array.from(charges.children).filter(child => child.localName === 'Rcrd');
+  if (records.length === 0) return '';
+  const sum = records.reduce((acc, record) => acc + (parseFloat(getElementText(findElementNS(record, 'Amt'))) || 0), 0);
+  return sum.toFixed(2);
+}
+
+// Remittance lines may be split over several Ustrd elements
+function remittanceText(tx: Element): string {
+  const remittance = findElementNS(tx, 'RmtInf');
+  if (!remittance) return '';
+  return Array.from(remittance.children)
+    .filter(child => child.localName === 'Ustrd')
+    .map(child => getElementText(child))
+    .filter(Boolean)
+    .join(' ');
+}
+
+// A batch entry carries the total, each transaction its own amount (TxDtls/Amt from .05,
+// AmtDtls/TxAmt/Amt in every version)
+function transactionAmountElement(tx: Element): Element | null {
+  return findElementNS(tx, 'Amt') || findElementNS(tx, 'AmtDtls/TxAmt/Amt');
+}
+
+function transactionAmount(tx: Element): string {
+  return getElementText(transactionAmountElement(tx));
+}
+
+// A return or reversal inside a batch carries its own indicator, opposite to the entry's
+function transactionSide(tx: Element, entrySide: string): string {
+  return getElementText(findElementNS(tx, 'CdtDbtInd')) || entrySide;
+}
+
+// Booking or value date of an entry: Dt, or the day of DtTm as used by intraday camt.052 reports
+function entryDate(entry: Element, element: 'BookgDt' | 'ValDt'): string {
+  const date = getElementText(findElementNS(entry, `${element}/Dt`));
+  if (date) return date;
+  const dateTime = getElementText(findElementNS(entry, `${element}/DtTm`));
+  return dateTime.split('T')[0];
+}
+
+// Compare the transaction amounts of an entry with details to the booked amount
+function checkEntryAmounts(entry: Element, statement: CamtStatement): CamtAmountDiscrepancy | null {
+  const txDetails = findAllElementsNS(entry, '//TxDtls');
+  if (txDetails.length === 0) return null;
+
+  // Amounts given in another currency than the booking cannot be added up
+  const entryAmount = findElementNS(entry, 'Amt');
+  const currency = entryAmount?.getAttribute('Ccy') || '';
+  const currencies = txDetails.map(tx => transactionAmountElement(tx)?.getAttribute('Ccy')).filter(Boolean);
+  if (currencies.some(txCurrency => txCurrency !== currency)) return null;
+
+  const amounts = txDetails.map(transactionAmount);
+  const missingAmounts = amounts.filter(amount => amount === '').length;
+  // A single transaction without amount is the entry itself
+  if (txDetails.length === 1 && missingAmounts === 1) return null;
+
+  // Transactions on the other side than the entry are deducted from the total
+  const entrySide = getElementText(findElementNS(entry, 'CdtDbtInd'));
+  const montantEcriture = parseFloat(getElementText(entryAmount)) || 0;
+  const totalTransactions = Math.round(txDetails.reduce((sum, tx, i) => {
+    const amount = parseFloat(amounts[i]) || 0;
+    return sum + (transactionSide(tx, entrySide) === entrySide ? amount : -amount);
+  }, 0) * 100) / 100;
+  if (missingAmounts === 0 && Math.abs(totalTransactions - montantEcriture) < 0.005) return null;
+
+  return {
+    idReleve: statement.id,
+    reference: getElementText(findElementNS(entry, 'NtryRef')) || getElementText(findElementNS(entry, 'AcctSvcrRef')),
+    dateComptabilisation: entryDate(entry, 'BookgDt'),
+    montantEcriture,
+    totalTransactions,
+    transactionCount: txDetails.length,
+    missingAmounts
+  };
+}
+
+function parseEntry(entry: Element, statement: CamtStatement): CamtData[] {
+  const amtElement = findElementNS(entry, 'Amt');
+  const montant = getElementText(amtElement);
+  const devise = amtElement?.getAttribute('Ccy') || '';
+  const sens = getElementText(findElementNS(entry, 'CdtDbtInd'));
+
+  const dateCompta = entryDate(entry, 'BookgDt');
+  const dateValeur = entryDate(entry, 'ValDt');
+
+  const infoSupElement = findElementNS(entry, 'AddtlNtryInf');
+  const infoSup = getElementText(infoSupElement);
+
+  // Find all transaction details within this entry
+  const txDetails = findAllElementsNS(entry, '//TxDtls');
+
+  if (txDetails.length === 0) {
+    // No transaction details, create a single row with entry data
+    return [{
+      montant,
+      devise,
+      creditDebit: sens,
+      dateComptabilisation: dateCompta,
+      dateValeur,
+      nomDebiteur: '',
+      ibanDebiteur: '',
+      ibanCreancier: '',
+      referenceProprietaire: '',
+      endToEndId: '',
+      instructionId: '',
+      banqueDebiteur: '',
+      informationsSupplementaires: infoSup,
+      nomCreancier: '',
+      communication: '',
+      referenceStructuree: '',
+      ...bankTransactionCode(null, entry),
+      frais: chargesAmount(entry),
+      ibanCompte: statement.iban,
+      idReleve: statement.id
+    }];
+  }
+
+  // Process each transaction detail
+  return txDetails.map(tx => {
+    const instrId = getElementText(findElementNS(tx, 'Refs/InstrId'));
+    const endToEnd = getElementText(findElementNS(tx, 'Refs/EndToEndId'));
+    const ref = getElementText(findElementNS(tx, 'Refs/Prtry/Ref'));
+
+    const debiteurNom = partyName(tx, 'Dbtr');
+    const debiteurIban = getElementText(findElementNS(tx, 'RltdPties/DbtrAcct/Id/IBAN'));
+    const crediteurIban = getElementText(findElementNS(tx, 'RltdPties/CdtrAcct/Id/IBAN'));
+
+    const banqueDebiteur = getElementText(findElementNS(tx, 'RltdAgts/DbtrAgt/FinInstnId/Nm'));
+
+    const txAmtElement = transactionAmountElement(tx);
+
+    return {
+      montant: getElementText(txAmtElement) || (txDetails.length === 1 ? montant : ''),
+      devise: txAmtElement?.getAttribute('Ccy') || devise,
+      creditDebit: transactionSide(tx, sens),
+      dateComptabilisation: dateCompta,
+      dateValeur,
+      nomDebiteur: debiteurNom,
+      ibanDebiteur: debiteurIban,
+      ibanCreancier: crediteurIban,
+      referenceProprietaire: ref,
+      endToEndId: endToEnd,
+      instructionId: instrId,
+      banqueDebiteur,
+      informationsSupplementaires: infoSup,
+      nomCreancier: partyName(tx, 'Cdtr'),
+      communication: remittanceText(tx),
+      referenceStructuree: getElementText(findElementNS(tx, 'RmtInf/Strd/CdtrRefInf/Ref')),
+      ...bankTransactionCode(tx, entry),
+      frais: chargesAmount(tx),
+      ibanCompte: statement.iban,
+      idReleve: statement.id
+    };
+  });
+}
+
+export function parseCamtFile(xmlString: string, fileName: string = ''): CamtFile {
   const parser = new DOMParser();
   const xmlDoc = parser.parseFromString(xmlString, 'text/xml');
-  
+
   // Check for parsing errors
   const parserError = xmlDoc.querySelector('parsererror');
   if (parserError) {
     throw new Error('Erreur de parsing XML: ' + parserError.textContent);
   }
-  
+
   const root = xmlDoc.documentElement;
-  const entries = findAllElementsNS(root, '//Ntry');
-  
-  const results: CamtData[] = [];
-  
-  entries.forEach(entry => {
-    const amtElement = findElementNS(entry, 'Amt');
-    const montant = getElementText(amtElement);
-    const devise = amtElement?.getAttribute('Ccy') || '';
-    const sens = getElementText(findElementNS(entry, 'CdtDbtInd'));
-    
-    const dateComptaElement = findElementNS(entry, 'BookgDt/Dt');
-    const dateCompta = getElementText(dateComptaElement);
-    
-    const dateValeurElement = findElementNS(entry, 'ValDt/Dt');
-    const dateValeur = getElementText(dateValeurElement);
-    
-    const infoSupElement = findElementNS(entry, 'AddtlNtryInf');
-    const infoSup = getElementText(infoSupElement);
-    
-    // Find all transaction details within this entry
-    const txDetails = findAllElementsNS(entry, '//TxDtls');
-    
-    if (txDetails.length === 0) {
-      // No transaction details, create a single row with entry data
-      results.push({
-        montant,
-        devise,
-        creditDebit: sens,
-        dateComptabilisation: dateCompta,
-        dateValeur,
-        nomDebiteur: '',
-        ibanDebiteur: '',
-        ibanCreancier: '',
-        referenceProprietaire: '',
-        endToEndId: '',
-        instructionId: '',
-        banqueDebiteur: '',
-        informationsSupplementaires: infoSup
-      });
-    } else {
-      // Process each transaction detail
-      txDetails.forEach(tx => {
-        const instrId = getElementText(findElementNS(tx, 'Refs/InstrId'));
-        const endToEnd = getElementText(findElementNS(tx, 'Refs/EndToEndId'));
-        const ref = getElementText(findElementNS(tx, 'Refs/Prtry/Ref'));
-        
-        const debiteurNom = getElementText(findElementNS(tx, 'RltdPties/Dbtr/Nm'));
-        const debiteurIban = getElementText(findElementNS(tx, 'RltdPties/DbtrAcct/Id/IBAN'));
-        const crediteurIban = getElementText(findElementNS(tx, 'RltdPties/CdtrAcct/Id/IBAN'));
-        
-        const banqueDebiteur = getElementText(findElementNS(tx, 'RltdAgts/DbtrAgt/FinInstnId/Nm'));
-        
-        results.push({
-          montant,
-          devise,
-          creditDebit: sens,
-          dateComptabilisation: dateCompta,
-          dateValeur,
-          nomDebiteur: debiteurNom,
-          ibanDebiteur: debiteurIban,
-          ibanCreancier: crediteurIban,
-          referenceProprietaire: ref,
-          endToEndId: endToEnd,
-          instructionId: instrId,
-          banqueDebiteur,
-          informationsSupplementaires: infoSup
-        });
-      });
-    }
+  const { type, version } = detectCamtMessage(root);
+  const statementTag = CAMT_MESSAGES.find(m => m.type === type)?.statement as string;
+
+  const statements: CamtStatement[] = [];
+  const data: CamtData[] = [];
+  const discrepancies: CamtAmountDiscrepancy[] = [];
+
+  findAllElementsNS(root, '//' + statementTag).forEach(element => {
+    const entries = findAllElementsNS(element, '//Ntry');
+    const statement: CamtStatement = {
+      id: getElementText(findElementNS(element, 'Id')),
+      iban: getElementText(findElementNS(element, 'Acct/Id/IBAN')),
+      ...readBalances(element),
+      entryCount: entries.length
+    };
+    statements.push(statement);
+    entries.forEach(entry => {
+      data.push(...parseEntry(entry, statement));
+      const discrepancy = checkEntryAmounts(entry, statement);
+      if (discrepancy) discrepancies.push(discrepancy);
+    });
   });
-  
-  return results;
+
+  return {
+    fileName,
+    messageType: type,
+    version,
+    supportedVersion: version === '' || SUPPORTED_CAMT_VERSIONS.includes(version),
+    statements,
+    data,
+    discrepancies
+  };
 }
 
-export function createCamtExcelFile(data: CamtData[]): XLSX.WorkBook {
+// Balances of the first statement of a camt.052 or camt.053 file
+export function readStatementBalances(xmlString: string): StatementBalances {
+  const statement = parseCamtFile(xmlString).statements[0];
+  if (!statement) {
+    throw new Error('Aucun relevé (Stmt) trouvé dans le fichier');
+  }
+  return { iban: statement.iban, opening: statement.opening, closing: statement.closing };
+}
+
+// Balance check of the F11 summary when the files hold a single statement with both balances
+export function statementBalanceControl(files: CamtFile[], bankAccount: string): BankBalanceControl | null {
+  const statements = files.flatMap(file => file.statements);
+  if (statements.length !== 1) return null;
+  const [statement] = statements;
+  if (statement.opening === null || statement.closing === null) return null;
+  return { account: bankAccount, opening: statement.opening, closing: statement.closing };
+}
+
+export function createCamtExcelFile(data: CamtData[], files: CamtFile[] = []): XLSX.WorkBook {
   const wb = XLSX.utils.book_new();
   
   // Create worksheet data
@@ -175,7 +433,16 @@ export function createCamtExcelFile(data: CamtData[]): XLSX.WorkBook {
       row.endToEndId,
       row.instructionId,
       row.banqueDebiteur,
-      row.informationsSupplementaires
+      row.informationsSupplementaires,
+      row.nomCreancier,
+      row.communication,
+      row.referenceStructuree,
+      row.codeDomaine,
+      row.codeFamille,
+      row.codeSousFamille,
+      row.frais,
+      row.ibanCompte,
+      row.idReleve
     ])
   ];
   
@@ -192,18 +459,54 @@ export function createCamtExcelFile(data: CamtData[]): XLSX.WorkBook {
   ws['!cols'] = maxWidths.map(width => ({ width: Math.min(width + 2, 50) }));
   
   XLSX.utils.book_append_sheet(wb, ws, "Paiements");
+
+  // One line per statement of each file
+  if (files.length > 0) {
+    const statementRows = files.flatMap(file => file.statements.map(statement => ({
+      "Fichier": file.fileName,
+      "Type": `${file.messageType}${file.version ? `.001.${file.version}` : ''}`,
+      "IBAN du compte": statement.iban,
+      "Identifiant du relevé": statement.id,
+      "Solde d'ouverture": statement.opening,
+      "Solde de clôture": statement.closing,
+      "Écritures": statement.entryCount
+    })));
+    const statementsSheet = XLSX.utils.json_to_sheet(statementRows);
+    statementsSheet['!cols'] = [{ wch: 30 }, { wch: 18 }, { wch: 26 }, { wch: 30 }, { wch: 16 }, { wch: 16 }, { wch: 10 }];
+    XLSX.utils.book_append_sheet(wb, statementsSheet, "Relevés");
+  }
   
   return wb;
 }
 
-export function downloadCamtExcelFile(workbook: XLSX.WorkBook, filename: string = 'Paiements.xlsx'): void {
-  XLSX.writeFile(workbook, filename);
+// The downloaded file is returned for the export history
+export function downloadCamtExcelFile(workbook: XLSX.WorkBook, filename: string = 'Paiements.xlsx'): Blob {
+  const wbout = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+  const blob = new Blob([wbout], { type: 'application/octet-stream' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = filename;
+  link.click();
+  return blob;
+}
+
+// Row count, credit and debit totals and one line per payment, as kept in the export history
+export function describeCamtExport(data: CamtData[]) {
+  const total = (indicator: string) =>
+    Math.round(data.filter(row => row.creditDebit === indicator).reduce((sum, row) => sum + (parseFloat(row.montant) || 0), 0) * 100) / 100;
+
+  return {
+    rowCount: data.length,
+    totals: { "Crédit": total("CRDT"), "Débit": total("DBIT") },
+    lines: data.map(row => [row.dateComptabilisation, row.creditDebit, row.montant, row.devise, row.nomDebiteur, row.referenceProprietaire].join(" | "))
+  };
 }
 
-export function processCamtFiles(files: File[]): Promise<{ allData: CamtData[], totalFiles: number, totalRows: number }> {
+export function processCamtFiles(files: File[]): Promise<{ allData: CamtData[], files: CamtFile[], totalFiles: number, totalRows: number }> {
   return new Promise((resolve, reject) => {
     let completedFiles = 0;
-    const allData: CamtData[] = [];
+    // Kept in the order of the selection, whatever the order the reads complete in
+    const parsedFiles: CamtFile[] = new Array(files.length);
     let hasError = false;
     
     if (files.length === 0) {
@@ -219,14 +522,15 @@ export function processCamtFiles(files: File[]): Promise<{ allData: CamtData[],
           if (hasError) return;
           
           const xmlString = e.target?.result as string;
-          const data = parseCamtXml(xmlString);
-          allData.push(...data);
+          parsedFiles[index] = parseCamtFile(xmlString, file.name);
           
           completedFiles++;
           
           if (completedFiles === files.length) {
+            const allData = parsedFiles.flatMap(parsed => parsed.data);
             resolve({
               allData,
+              files: parsedFiles,
               totalFiles: files.length,
               totalRows: allData.length
             });
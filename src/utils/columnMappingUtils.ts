@@ -0,0 +1,137 @@
+import {
+  collectiveGroupColumn,
+  creditColumn,
+  currencyColumn,
+  debitColumn,
+  debitCreditColumn,
+  exchangeRateColumn,
+  ExcelRow,
+  foreignAmountColumn,
+  requiredHeaders,
+  sourceColumn
+} from './excelUtils';
+import { costCentreColumns } from './costCentreUtils';
+
+// F11 input column -> column of the client's file
+export type ColumnMapping = Record<string, string>;
+
+export interface SavedColumnMapping {
+  name: string;
+  mapping: ColumnMapping;
+}
+
+export const optionalFields = [
+  debitCreditColumn, debitColumn, creditColumn,
+  currencyColumn, exchangeRateColumn, foreignAmountColumn,
+  collectiveGroupColumn,
+  ...costCentreColumns.map(column => column.input)
+];
+
+export const mappableFields = [...requiredHeaders, ...optionalFields];
+
+// Headers met in client files, in French, German and English
+const FIELD_SYNONYMS: Record<string, string[]> = {
+  "Date": ["date", "datum", "buchungsdatum", "date comptable", "date ecriture", "booking date", "posting date", "beleg datum"],
+  "Compte": ["compte", "konto", "account", "compte debit", "sollkonto", "soll konto", "debit account", "kontonummer", "account number"],
+  "Contrepartie": ["contrepartie", "compte contrepartie", "gegenkonto", "habenkonto", "haben konto", "counter account", "contra account", "offset account", "credit account"],
+  "Texte1": ["texte1", "texte", "libelle", "description", "text", "buchungstext", "beschreibung", "narration", "memo"],
+  "Montant": ["montant", "betrag", "amount", "somme", "montant chf", "betrag chf", "amount chf", "value"],
+  "Code TVA": ["code tva", "tva", "mwst code", "mwst", "steuercode", "code mwst", "vat code", "vat", "tax code"],
+  [debitCreditColumn]: ["d c", "dc", "sens", "soll haben", "sh", "debit credit", "side"],
+  [debitColumn]: ["debit", "soll", "debit amount", "montant debit"],
+  [creditColumn]: ["credit", "haben", "credit amount", "montant credit"],
+  [currencyColumn]: ["devise", "monnaie", "wahrung", "currency", "iso"],
+  [exchangeRateColumn]: ["cours", "taux de change", "kurs", "wechselkurs", "exchange rate", "rate"],
+  [foreignAmountColumn]: ["montant me", "montant devise", "betrag fw", "fremdwahrungsbetrag", "foreign amount", "amount fc"],
+  [collectiveGroupColumn]: ["groupe", "gruppe", "sammelbuchung", "group", "collective"],
+  "KST": ["kst", "centre de cout", "kostenstelle", "cost centre", "cost center"],
+  "KST Contrepartie": ["kst contrepartie", "centre de cout contrepartie", "gegenkostenstelle"],
+  "KTR": ["ktr", "projet", "kostentrager", "projekt", "project"],
+  "KTR Contrepartie": ["ktr contrepartie", "projet contrepartie", "gegenkostentrager"],
+  "Niveau 3": ["niveau 3"],
+  "Niveau 3 Contrepartie": ["niveau 3 contrepartie"]
+};
+
+const MIN_SCORE = 0.6;
+
+// Lower case, without accents and punctuation: "Libellé" -> "libelle", "D/C" -> "d c"
+const normalize = (text: string): string => {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+};
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// 1 for an exact synonym, 0.8 when one contains the other, edit-distance ratio otherwise
+export const headerScore = (field: string, header: string): number => {
+  const candidate = normalize(header);
+  if (!candidate) return 0;
+
+  return Math.max(0, ...[field, ...(FIELD_SYNONYMS[field] || [])].map(synonym => {
+    const target = normalize(synonym);
+    if (candidate === target) return 1;
+    if (target.length > 2 && (candidate.includes(target) || target.includes(candidate))) return 0.8;
+    return 1 - levenshtein(candidate, target) / Math.max(candidate.length, target.length);
+  }));
+};
+
+// Best header for each field, each header used at most once, the best scores being assigned first
+export const suggestColumnMapping = (headers: string[], fields: string[] = mappableFields): ColumnMapping => {
+  const candidates = fields
+    .flatMap(field => headers.map(header => ({ field, header, score: headerScore(field, header) })))
+    .filter(candidate => candidate.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score);
+
+  const mapping: ColumnMapping = {};
+  const usedHeaders = new Set<string>();
+  candidates.forEach(({ field, header }) => {
+    if (mapping[field] || usedHeaders.has(header)) return;
+    mapping[field] = header;
+    usedHeaders.add(header);
+  });
+  return mapping;
+};
+
+// A saved mapping applies when every column it uses is present in the file
+export const findSavedMapping = (headers: string[], saved: SavedColumnMapping[]): SavedColumnMapping | undefined => {
+  return saved.find(({ mapping }) => {
+    const sources = Object.values(mapping).filter(Boolean);
+    return sources.length > 0 && sources.every(source => headers.includes(source));
+  });
+};
+
+// Rename the mapped columns to the F11 input headers, other columns are kept as they are
+export const applyColumnMapping = (jsonData: ExcelRow[], mapping: ColumnMapping): ExcelRow[] => {
+  const entries = Object.entries(mapping).filter(([field, source]) => source && field !== source);
+  if (entries.length === 0) return jsonData;
+
+  const mappedSources = new Set(entries.map(([, source]) => source));
+  return jsonData.map(row => {
+    const mapped: ExcelRow = {};
+    Object.keys(row).forEach(key => {
+      if (!mappedSources.has(key) || key === sourceColumn) mapped[key] = row[key];
+    });
+    entries.forEach(([field, source]) => {
+      if (row[source] !== undefined) mapped[field] = row[source];
+    });
+    return mapped;
+  });
+};
@@ -0,0 +1,59 @@
+import * as XLSX from 'xlsx';
+
+export interface CostCentre {
+  number: string;
+  name: string;
+}
+
+// Optional analytical columns of the F11 input and the output columns they fill
+export const costCentreColumns: { input: string; output: string; level: 1 | 2 | 3 }[] = [
+  { input: "KST", output: "Niveau d'imputation 1", level: 1 },
+  { input: "KST Contrepartie", output: "Contrepartie niveau d'imputation 1", level: 1 },
+  { input: "KTR", output: "Niveau d'imputation 2", level: 2 },
+  { input: "KTR Contrepartie", output: "Contrepartie niveau d'imputation 2", level: 2 },
+  { input: "Niveau 3", output: "Niveau d'imputation 3", level: 3 },
+  { input: "Niveau 3 Contrepartie", output: "Contrepartie niveau d'imputation 3", level: 3 }
+];
+
+// The uploaded list holds the cost centres (KST), projects and level 3 are only checked for format
+export const COST_CENTRE_LIST_LEVEL = 1;
+
+const COST_CENTRES_STORAGE_KEY_PREFIX = 'exceltoabacus.costCentres.';
+
+// Read a cost centre list: number in the first column, name in the second, header row optional
+export const parseCostCentreWorkbook = (workbook: XLSX.WorkBook): CostCentre[] => {
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  const rows = XLSX.utils.sheet_to_json(sheet, { header: 1 }) as unknown[][];
+
+  return rows
+    .filter(row => row.length > 0 && /^\d+$/.test(String(row[0] ?? '').trim()))
+    .map(row => ({
+      number: String(row[0]).trim(),
+      name: String(row[1] ?? '').trim()
+    }));
+};
+
+export const loadCostCentres = (mandateId: string): CostCentre[] => {
+  try {
+    const stored = localStorage.getItem(COST_CENTRES_STORAGE_KEY_PREFIX + mandateId);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Liste des centres de coûts illisible:', error);
+    return [];
+  }
+};
+
+export const saveCostCentres = (mandateId: string, costCentres: CostCentre[]): void => {
+  if (costCentres.length === 0) {
+    localStorage.removeItem(COST_CENTRES_STORAGE_KEY_PREFIX + mandateId);
+    return;
+  }
+  localStorage.setItem(COST_CENTRES_STORAGE_KEY_PREFIX + mandateId, JSON.stringify(costCentres));
+};
+
+// Cost centre value of an input cell, 0 when empty as expected by Abacus
+export const toCostCentreValue = (value: unknown): number | string => {
+  if (value === undefined || value === null || String(value).trim() === '') return 0;
+  const text = String(value).trim();
+  return /^\d+$/.test(text) ? parseInt(text, 10) : text;
+};
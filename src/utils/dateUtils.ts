@@ -0,0 +1,167 @@
+import * as XLSX from 'xlsx';
+
+// Excel stores dates as day counts from 30.12.1899, or from 01.01.1904 for workbooks created on old Macs
+export type DateSystem = 1900 | 1904;
+
+const EXCEL_1900_EPOCH = Date.UTC(1899, 11, 30);
+const EXCEL_1904_EPOCH = Date.UTC(1904, 0, 1);
+const DAY_MS = 86400000;
+
+// Two-digit years up to this value are read as 20yy, above as 19yy
+const TWO_DIGIT_YEAR_PIVOT = 69;
+
+// French, German and English month names, accents removed
+const MONTH_NAMES: string[][] = [
+  ["janvier", "januar", "janner", "january"],
+  ["fevrier", "februar", "feber", "february"],
+  ["mars", "marz", "march"],
+  ["avril", "april"],
+  ["mai", "may"],
+  ["juin", "juni", "june"],
+  ["juillet", "juli", "july"],
+  ["aout", "august"],
+  ["septembre", "september"],
+  ["octobre", "oktober", "october"],
+  ["novembre", "november"],
+  ["decembre", "dezember", "december"]
+];
+
+const invalidDate = (value: unknown, reason: string): Error => new Error(`Date « ${String(value)} » ${reason}`);
+
+export const workbookDateSystem = (workbook: XLSX.WorkBook): DateSystem => {
+  return workbook.Workbook?.WBProps?.date1904 ? 1904 : 1900;
+};
+
+export const excelSerialToDate = (serial: number, dateSystem: DateSystem = 1900): Date => {
+  const utc = new Date((dateSystem === 1904 ? EXCEL_1904_EPOCH : EXCEL_1900_EPOCH) + Math.floor(serial) * DAY_MS);
+  return new Date(utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate());
+};
+
+// Serial in the 1900 system, the one assumed by every converter
+export const dateToExcelSerial = (date: Date): number => {
+  return Math.round((Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) - EXCEL_1900_EPOCH) / DAY_MS);
+};
+
+const removeAccents = (text: string): string => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+// Full names and abbreviations of at least three letters ("janv.", "Feb", "déc")
+const monthFromName = (name: string): number | null => {
+  const token = removeAccents(name).toLowerCase().replace(/\.$/, '');
+  if (token.length < 3) return null;
+  const months = MONTH_NAMES
+    .map((names, index) => (names.some(n => n.startsWith(token)) ? index + 1 : 0))
+    .filter(Boolean);
+  return months.length === 1 ? months[0] : null;
+};
+
+const expandYear = (year: string): number => {
+  const value = parseInt(year, 10);
+  if (year.length > 2) return value;
+  return value <= TWO_DIGIT_YEAR_PIVOT ? 2000 + value : 1900 + value;
+};
+
+const buildDate = (value: unknown, year: number, month: number, day: number): Date => {
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    throw invalidDate(value, "n'existe pas");
+  }
+  return date;
+};
+
+/**
+ * Parse a date from a file or a form, throwing an error naming the value when it cannot be read.
+ * Accepted: Excel serials, Date objects, d.m.yy(yy), d/m/yy(yy), d-m-yyyy, ISO yyyy-mm-dd (with time),
+ * and "5 janvier 2024", "5. März 2024", "Jan 5, 2024".
+ */
+export const parseDate = (value: unknown, dateSystem: DateSystem = 1900): Date => {
+  if (value === null || value === undefined || String(value).trim() === '') {
+    throw new Error("Date manquante");
+  }
+
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) throw invalidDate(value, "invalide");
+    return new Date(value.getFullYear(), value.getMonth(), value.getDate());
+  }
+
+  if (typeof value === 'number') {
+    if (!isFinite(value) || value < 1) throw invalidDate(value, "n'est pas un numéro de série Excel");
+    return excelSerialToDate(value, dateSystem);
+  }
+
+  const text = String(value).trim();
+
+  // Serial numbers read as text
+  if (/^\d{5}(\.\d+)?$/.test(text)) {
+    return excelSerialToDate(parseFloat(text), dateSystem);
+  }
+
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ].*)?$/.exec(text);
+  if (iso) {
+    return buildDate(value, parseInt(iso[1], 10), parseInt(iso[2], 10), parseInt(iso[3], 10));
+  }
+
+  const numeric = /^(\d{1,2})[./-](\d{1,2})[./-](\d{2}|\d{4})$/.exec(text);
+  if (numeric) {
+    return buildDate(value, expandYear(numeric[3]), parseInt(numeric[2], 10), parseInt(numeric[1], 10));
+  }
+
+  const dayFirst = /^(\d{1,2})\.?\s*([\p{L}]+\.?)\s*(\d{2}|\d{4})$/u.exec(text);
+  const monthFirst = /^([\p{L}]+\.?)\s*(\d{1,2}),?\s+(\d{4})$/u.exec(text);
+  if (dayFirst || monthFirst) {
+    const [day, name, year] = dayFirst
+      ? [dayFirst[1], dayFirst[2], dayFirst[3]]
+      : [monthFirst[2], monthFirst[1], monthFirst[3]];
+    const month = monthFromName(name);
+    if (!month) throw invalidDate(value, `: mois « ${name} » non reconnu`);
+    return buildDate(value, expandYear(year), month, parseInt(day, 10));
+  }
+
+  throw invalidDate(value, "non reconnue");
+};
+
+// Same as parseDate, null instead of an error for callers that report invalid dates themselves
+export const tryParseDate = (value: unknown, dateSystem: DateSystem = 1900): Date | null => {
+  try {
+    return parseDate(value, dateSystem);
+  } catch {
+    return null;
+  }
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+// dd.mm.yyyy, the format of the Abacus F11 files
+export const formatAbacusDate = (date: Date): string => {
+  return `${pad(date.getDate())}.${pad(date.getMonth() + 1)}.${date.getFullYear()}`;
+};
+
+// yyyy-mm-dd, the format of the AbaConnect XML files and of the VAT periods
+export const formatIsoDate = (date: Date): string => {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const toAbacusDate = (value: unknown, dateSystem: DateSystem = 1900): string => {
+  return formatAbacusDate(parseDate(value, dateSystem));
+};
+
+export const toIsoDate = (value: unknown, dateSystem: DateSystem = 1900): string => {
+  return formatIsoDate(parseDate(value, dateSystem));
+};
+
+// yyyy-mm-dd of an F11 date, empty string if it cannot be read
+export const abacusDateToIso = (abacusDate: string): string => {
+  const date = tryParseDate(abacusDate);
+  return date ? formatIsoDate(date) : "";
+};
+
+// Copy of a sheet of a 1904 workbook whose date cells hold 1900 serials; the number formats
+// are only known when the workbook is read with cellNF
+export const sheetTo1900DateSystem = (sheet: XLSX.WorkSheet): XLSX.WorkSheet => {
+  const converted: XLSX.WorkSheet = { ...sheet };
+  Object.keys(sheet).forEach(address => {
+    const cell = sheet[address] as XLSX.CellObject;
+    if (address[0] === '!' || cell.t !== 'n' || !cell.z || !XLSX.SSF.is_date(cell.z)) return;
+    converted[address] = { ...cell, v: dateToExcelSerial(excelSerialToDate(cell.v as number, 1904)) };
+  });
+  return converted;
+};
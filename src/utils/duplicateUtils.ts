@@ -0,0 +1,159 @@
+import { ExcelRow, signedAmount } from './excelUtils';
+
+// What is kept of each exported F11 line to recognise it in a later file
+export interface ExportedEntry {
+  date: string; // dd.mm.yyyy
+  compte: string;
+  contrepartie: string;
+  montant: number; // signed, credits negative
+  texte: string;
+}
+
+export interface ExportedBatch {
+  fileName: string;
+  exportedAt: string; // ISO timestamp
+  entries: ExportedEntry[];
+}
+
+export type DuplicateKind = 'exact' | 'fuzzy';
+
+export interface DuplicateEntry {
+  rowIndex: number; // index in the transformed rows
+  rowNumber: number; // "N° enregistrement"
+  date: string;
+  compte: string;
+  montant: number;
+  texte: string;
+  kind: DuplicateKind;
+  matchedWith: string; // "écriture 12" or "F11_Ecritures.xlsx du 03.02.2025"
+  matchedText: string;
+}
+
+const EXPORTED_BATCHES_STORAGE_KEY = 'exceltoabacus.exportedBatches.';
+
+// Older batches are dropped beyond this count
+const MAX_STORED_BATCHES = 24;
+
+// Share of common words from which two texts of the same date, account and amount are duplicates
+const FUZZY_TEXT_SIMILARITY = 0.5;
+
+export const loadExportedBatches = (mandateId: string): ExportedBatch[] => {
+  try {
+    const stored = localStorage.getItem(EXPORTED_BATCHES_STORAGE_KEY + mandateId);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+const toExportedEntry = (row: ExcelRow): ExportedEntry => ({
+  date: String(row["Date"] ?? ""),
+  compte: String(row["Compte"] ?? "").trim(),
+  contrepartie: String(row["Contrepartie"] ?? "").trim(),
+  montant: Math.round(signedAmount(row) * 100) / 100,
+  texte: String(row["Texte1"] ?? "")
+});
+
+// Remember the lines of a downloaded file so that re-importing them is detected
+export const recordExportedBatch = (mandateId: string, fileName: string, outputData: ExcelRow[]): ExportedBatch => {
+  const batch: ExportedBatch = {
+    fileName,
+    exportedAt: new Date().toISOString(),
+    entries: outputData.map(toExportedEntry)
+  };
+  const batches = [...loadExportedBatches(mandateId), batch].slice(-MAX_STORED_BATCHES);
+  try {
+    localStorage.setItem(EXPORTED_BATCHES_STORAGE_KEY + mandateId, JSON.stringify(batches));
+  } catch {
+    // storage full: keep only the latest batch
+    localStorage.setItem(EXPORTED_BATCHES_STORAGE_KEY + mandateId, JSON.stringify([batch]));
+  }
+  return batch;
+};
+
+const words = (text: string): Set<string> => {
+  return new Set(
+    text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().split(/[^a-z0-9]+/).filter(Boolean)
+  );
+};
+
+// Common words over all words of both texts
+const textSimilarity = (a: string, b: string): number => {
+  const wordsA = words(a);
+  const wordsB = words(b);
+  if (wordsA.size === 0 && wordsB.size === 0) return 1;
+  const common = [...wordsA].filter(word => wordsB.has(word)).length;
+  return common / (wordsA.size + wordsB.size - common);
+};
+
+const matchKey = (entry: ExportedEntry): string => `${entry.date}|${entry.compte}|${entry.montant.toFixed(2)}`;
+
+const normalizeText = (text: string): string => [...words(text)].join(' ');
+
+const compare = (entry: ExportedEntry, other: ExportedEntry): DuplicateKind | null => {
+  if (entry.contrepartie === other.contrepartie && normalizeText(entry.texte) === normalizeText(other.texte)) {
+    return 'exact';
+  }
+  return textSimilarity(entry.texte, other.texte) >= FUZZY_TEXT_SIMILARITY ? 'fuzzy' : null;
+};
+
+const formatExportDate = (iso: string): string => {
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? iso : date.toLocaleDateString('fr-CH');
+};
+
+/**
+ * Lines with the same date, account and amount as an earlier line of the file or as a line
+ * already exported; exact when the counter-account and text are identical too, fuzzy when
+ * the texts are only similar. Lines of the same collective entry are not compared together.
+ */
+export const findDuplicates = (outputData: ExcelRow[], batches: ExportedBatch[] = []): DuplicateEntry[] => {
+  const exported = new Map<string, { entry: ExportedEntry; label: string }[]>();
+  batches.forEach(batch => {
+    const label = `${batch.fileName} du ${formatExportDate(batch.exportedAt)}`;
+    batch.entries.forEach(entry => {
+      const key = matchKey(entry);
+      exported.set(key, [...(exported.get(key) || []), { entry, label }]);
+    });
+  });
+
+  const seen = new Map<string, { entry: ExportedEntry; rowNumber: number }[]>();
+  const duplicates: DuplicateEntry[] = [];
+
+  outputData.forEach((row, rowIndex) => {
+    const entry = toExportedEntry(row);
+    const rowNumber = row["N° enregistrement"];
+    const key = matchKey(entry);
+
+    const candidates = [
+      ...(seen.get(key) || [])
+        .filter(previous => previous.rowNumber !== rowNumber)
+        .map(previous => ({ entry: previous.entry, label: `écriture ${previous.rowNumber}` })),
+      ...(exported.get(key) || [])
+    ];
+
+    // Exact matches are reported first
+    const matches = candidates
+      .map(candidate => ({ ...candidate, kind: compare(entry, candidate.entry) }))
+      .filter(candidate => candidate.kind)
+      .sort((a, b) => (a.kind === b.kind ? 0 : a.kind === 'exact' ? -1 : 1));
+
+    if (matches.length > 0) {
+      duplicates.push({
+        rowIndex,
+        rowNumber,
+        date: entry.date,
+        compte: entry.compte,
+        montant: entry.montant,
+        texte: entry.texte,
+        kind: matches[0].kind,
+        matchedWith: matches[0].label,
+        matchedText: matches[0].entry.texte
+      });
+    }
+
+    seen.set(key, [...(seen.get(key) || []), { entry, rowNumber }]);
+  });
+
+  return duplicates;
+};
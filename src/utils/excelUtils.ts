@@ -1,5 +1,22 @@
 
 import * as XLSX from 'xlsx';
+import { ChartAccount, findAccount } from './accountUtils';
+import { costCentreColumns, toCostCentreValue } from './costCentreUtils';
+import { buildCategoryMatchers, OTHER_CATEGORY_NAME, SummaryCategoryDefinition } from './summaryUtils';
+import { abacusDateToIso, formatAbacusDate, sheetTo1900DateSystem, tryParseDate, workbookDateSystem } from './dateUtils';
+import { DuplicateEntry, ExportedBatch, findDuplicates, loadExportedBatches } from './duplicateUtils';
+import { getActiveMandate } from './mandateUtils';
+import {
+  findVatCode,
+  findVatPeriod,
+  getVatAccount,
+  getVatCodeValidity,
+  getVatKind,
+  getVatRate,
+  loadVatCodes,
+  VatCodeDefinition,
+  VatSettings
+} from './vatUtils';
 
 export interface ExcelRow {
   [key: string]: any;
@@ -7,52 +24,106 @@ export interface ExcelRow {
 
 export const requiredHeaders = ["Date", "Compte", "Contrepartie", "Texte1", "Montant", "Code TVA"];
 
-// TVA rates mapping based on the code
-export const tauxTVAMapping: { [key: number]: number } = {
-  111: 7.7, 121: 7.7, 131: 8.1, 132: 2.6,
-  141: 8.1, 142: 2.6, 144: 3.8, 311: 7.7,
-  312: 2.5, 511: 8.1, 512: 2.6, 516: 100,
-  112: 2.5, 122: 2.5, 126: 0, 136: 0,
-  116: 0, 200: 0, 400: 0, 401: 0,
-  115: 100, 125: 100
+// How the booking side is given in the input:
+// - sign: signed "Montant", always booked as D (historical F11 template)
+// - column: positive "Montant" with a "D/C" column
+// - split: separate "Débit" and "Crédit" amount columns instead of "Montant"
+export type DebitCreditMode = 'sign' | 'column' | 'split';
+
+export const debitCreditColumn = "D/C";
+export const debitColumn = "Débit";
+export const creditColumn = "Crédit";
+
+// Optional foreign currency columns, amounts without them are booked in CHF
+export const currencyColumn = "Devise";
+export const exchangeRateColumn = "Cours";
+export const foreignAmountColumn = "Montant ME";
+
+export const BASE_CURRENCY = "CHF";
+
+export const detectDebitCreditMode = (headers: string[]): DebitCreditMode => {
+  if (headers.includes(debitColumn) && headers.includes(creditColumn)) return 'split';
+  if (headers.includes(debitCreditColumn)) return 'column';
+  return 'sign';
+};
+
+// VAT settings and mandant number default to those of the active mandate
+export interface TransformOptions {
+  debitCreditMode?: DebitCreditMode;
+  vatSettings?: VatSettings;
+  mandantNumber?: string;
+}
+
+const parseAmount = (value: unknown): number => {
+  if (value === undefined || value === null || value === "") return 0;
+  return typeof value === 'number' ? value : parseFloat(String(value)) || 0;
+};
+
+// Accepts D/C, S/H (Soll/Haben) and the full French and German words
+export const parseDebitCreditIndicator = (value: unknown): 'D' | 'C' | null => {
+  const indicator = String(value ?? "").trim().toUpperCase();
+  if (["D", "DB", "DEBIT", "DÉBIT", "S", "SOLL"].includes(indicator)) return 'D';
+  if (["C", "CR", "CREDIT", "CRÉDIT", "H", "HABEN"].includes(indicator)) return 'C';
+  return null;
 };
 
-// Convert Excel serial date or string date to dd.mm.yyyy format
-export const convertToAbacusDate = (dateValue: any): string => {
-  if (!dateValue) return "";
-  
-  // If it's a number (Excel serial date)
-  if (typeof dateValue === 'number') {
-    // Excel serial date starts from 1900-01-01 (with the 1900 leap year bug)
-    const excelEpoch = new Date(1899, 11, 30); // Dec 30, 1899
-    const date = new Date(excelEpoch.getTime() + dateValue * 24 * 60 * 60 * 1000);
-    const day = String(date.getDate()).padStart(2, '0');
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const year = date.getFullYear();
-    return `${day}.${month}.${year}`;
+// Resolve the booked amount and side of an input row, the amount is positive except in sign mode.
+// Without a CHF amount, the sign of "Montant ME" gives the side.
+export const resolveDebitCredit = (row: ExcelRow, mode: DebitCreditMode = 'sign'): { montant: number; dc: 'D' | 'C' } => {
+  if (mode === 'split') {
+    const debit = parseAmount(row[debitColumn]);
+    const credit = parseAmount(row[creditColumn]);
+    const net = debit - credit;
+    const sign = net || parseAmount(row[foreignAmountColumn]);
+    return { montant: Math.abs(net), dc: sign < 0 ? 'C' : 'D' };
   }
-  
-  // If it's already a string
-  const strDate = String(dateValue);
-  
-  // Check if already in dd.mm.yyyy format
-  if (/^\d{2}\.\d{2}\.\d{4}$/.test(strDate)) {
-    return strDate;
+
+  const montant = parseAmount(row["Montant"]);
+
+  if (mode === 'column') {
+    const dc = parseDebitCreditIndicator(row[debitCreditColumn]) || 'D';
+    // A negative amount with an explicit side is booked on the other side
+    if ((montant || parseAmount(row[foreignAmountColumn])) < 0) return { montant: Math.abs(montant), dc: dc === 'D' ? 'C' : 'D' };
+    return { montant, dc };
   }
-  
-  // Convert from dd/mm/yyyy to dd.mm.yyyy
-  if (/^\d{2}\/\d{2}\/\d{4}$/.test(strDate)) {
-    return strDate.replace(/\//g, '.');
+
+  return { montant, dc: 'D' };
+};
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+export interface ForeignCurrencyAmounts {
+  devise: string;
+  montant: number;
+  montantME: number;
+  cours: number;
+}
+
+// Complete the CHF amount or the rate of a foreign currency row from the two other values.
+// The foreign amount follows the same sign convention as the CHF amount.
+export const resolveForeignCurrency = (row: ExcelRow, montant: number, mode: DebitCreditMode = 'sign'): ForeignCurrencyAmounts => {
+  const devise = String(row[currencyColumn] || BASE_CURRENCY).trim().toUpperCase();
+  if (devise === BASE_CURRENCY) {
+    return { devise, montant, montantME: 0, cours: 0 };
   }
-  
-  // Convert from yyyy-mm-dd to dd.mm.yyyy
-  if (/^\d{4}-\d{2}-\d{2}$/.test(strDate)) {
-    const [year, month, day] = strDate.split('-');
-    return `${day}.${month}.${year}`;
+
+  const rawME = parseAmount(row[foreignAmountColumn]);
+  const montantME = mode === 'sign' ? rawME : Math.abs(rawME);
+  let cours = parseAmount(row[exchangeRateColumn]);
+
+  if (!montant && montantME && cours) {
+    montant = roundAmount(montantME * cours);
+  } else if (!cours && montant && montantME) {
+    cours = Math.round((montant / montantME) * 100000) / 100000;
   }
-  
-  // Return as-is if format is unrecognized
-  return strDate;
+
+  return { devise, montant, montantME, cours: Math.abs(cours) };
+};
+
+// Signed amount of an output row, credits count negative
+export const signedAmount = (row: ExcelRow): number => {
+  const montant = parseFloat(row["Montant"]) || 0;
+  return row["DC"] === "C" ? -montant : montant;
 };
 
 // Define the columns for the output Excel file
@@ -70,48 +141,200 @@ export const outputColumns = [
 
 // Check if the Excel file has all required headers
 export const validateHeaders = (headers: string[]): string[] => {
+  if (detectDebitCreditMode(headers) === 'split') {
+    return requiredHeaders.filter(header => header !== "Montant" && !headers.includes(header));
+  }
   return requiredHeaders.filter(header => !headers.includes(header));
 };
 
+// Origin of each imported row ("fichier › feuille › ligne"), kept for traceability when
+// several sheets or files are concatenated
+export const sourceColumn = "Source";
+
+const SOURCE_SEPARATOR = " › ";
+
+export const formatRowSource = (fileName: string, sheetName: string, rowNumber: number): string => {
+  return [fileName, sheetName, rowNumber].join(SOURCE_SEPARATOR);
+};
+
+// File and sheet part of the source, without the row number
+const sourceScope = (row: ExcelRow): string => {
+  const source = String(row[sourceColumn] ?? "");
+  const index = source.lastIndexOf(SOURCE_SEPARATOR);
+  return index >= 0 ? source.substring(0, index) : source;
+};
+
+// Rows of one sheet, each tagged with its source; the row number is the Excel line
+export const readSheetRows = (workbook: XLSX.WorkBook, sheetName: string, fileName: string): ExcelRow[] => {
+  const sheet = workbook.Sheets[sheetName];
+  const rows = XLSX.utils.sheet_to_json(
+    workbookDateSystem(workbook) === 1904 ? sheetTo1900DateSystem(sheet) : sheet
+  ) as ExcelRow[];
+  return rows.map((row, i) => ({
+    ...row,
+    [sourceColumn]: formatRowSource(fileName, sheetName, (row.__rowNum__ ?? i) + 1)
+  }));
+};
+
+// Rows sharing a non-empty "Groupe" value are booked as one collective entry
+export const collectiveGroupColumn = "Groupe";
+export const COLLECTIVE_IDENTIFIER = "S";
+
+interface PlannedEntry {
+  row: ExcelRow;
+  entryNumber: number;
+  position: number; // 0 for a simple entry, 1..n for the lines of a collective entry
+}
+
+// Number the entries and keep the lines of each collective entry together, in the order of their first line
+const planEntries = (jsonData: ExcelRow[]): PlannedEntry[] => {
+  // Groups are scoped to their sheet, the same "Groupe" value in two files makes two entries
+  const groupKey = (row: ExcelRow) => {
+    const group = String(row[collectiveGroupColumn] ?? "").trim();
+    return group ? `${sourceScope(row)}|${group}` : "";
+  };
+
+  const groups = new Map<string, ExcelRow[]>();
+  jsonData.forEach(row => {
+    const key = groupKey(row);
+    if (key) groups.set(key, [...(groups.get(key) || []), row]);
+  });
+
+  const planned: PlannedEntry[] = [];
+  const emitted = new Set<string>();
+  let entryNumber = 0;
+
+  jsonData.forEach(row => {
+    const key = groupKey(row);
+    const groupRows = key ? groups.get(key) : undefined;
+
+    // A group of one line is a simple entry
+    if (!groupRows || groupRows.length < 2) {
+      planned.push({ row, entryNumber: ++entryNumber, position: 0 });
+      return;
+    }
+    if (emitted.has(key)) return;
+
+    emitted.add(key);
+    entryNumber++;
+    groupRows.forEach((groupRow, i) => planned.push({ row: groupRow, entryNumber, position: i + 1 }));
+  });
+
+  return planned;
+};
+
+interface VatInput {
+  codeTVA: unknown;
+  compte: unknown;
+  date: string; // dd.mm.yyyy
+  montant: number;
+  montantME: number;
+  isForeign: boolean;
+  dc: 'D' | 'C';
+}
+
+// VAT fields of an entry, shared by the transformation and the edits made in the preview grid
+export const computeVatFields = (
+  { codeTVA, compte, date, montant, montantME, isForeign, dc }: VatInput,
+  vatSettings: VatSettings,
+  vatCodes: VatCodeDefinition[]
+) => {
+  const hasCode = codeTVA !== undefined && codeTVA !== null && codeTVA !== "";
+
+  // Output tax codes post to the output VAT account; under the net tax rate method
+  // input tax is not deductible and is left inside the booked amount
+  const vatDefinition = hasCode ? findVatCode(codeTVA as string | number, vatCodes) : undefined;
+  const vatKind = vatDefinition ? getVatKind(vatDefinition) : 'input';
+  const vatAccount = vatDefinition ? getVatAccount(vatDefinition, vatSettings) : vatSettings.inputTaxAccount;
+  const netTaxRateMethod = vatSettings.settlementMethod === 'netTaxRate';
+  const vatDeductible = !(netTaxRateMethod && vatKind === 'input');
+
+  // Rate valid on the booking date, so entries before 2024 keep the old Swiss rates
+  const statutoryRate = hasCode && vatDeductible ? getVatRate(codeTVA as string | number, abacusDateToIso(date), vatCodes) : 0;
+
+  // Under the net tax rate method, taxable turnover (statutory rate between 0 and 100 %) owes the
+  // mandate's net tax rate on the gross amount; without a net rate the statutory rate is kept
+  const netRateApplies = netTaxRateMethod && vatKind === 'output' && vatSettings.netTaxRate > 0
+    && statutoryRate > 0 && statutoryRate < 100;
+  const tauxTVA = netRateApplies ? vatSettings.netTaxRate : statutoryRate;
+  const taxShare = (amount: number) => netRateApplies
+    ? amount * tauxTVA / 100
+    : amount - (amount / (1 + tauxTVA / 100));
+
+  // One encoding whatever the input layout, that of the historical F11 template: "DC TVA" is
+  // always 2 and "Montant TVA" is signed against the booked amount, negative for a debit and
+  // positive for a credit. A debit of 108.10 at 8.1 % gives DC TVA 2 and Montant TVA -8.10,
+  // whether it was read as a signed amount, with a D/C column or from the Débit column.
+  const sign = dc === 'C' ? -1 : 1;
+  const signedMontant = sign * montant;
+  const signedMontantME = sign * montantME;
+  const vatAmount = tauxTVA > 0 ? roundAmount(taxShare(signedMontant)) : 0;
+  const vatAmountME = tauxTVA > 0 && isForeign ? roundAmount(taxShare(signedMontantME)) : 0;
+
+  return {
+    tauxTVA,
+    tvaIncl: hasCode ? "I" : "",
+    coeffTVA: 100,
+    compteTVA: hasCode ? compte || 0 : 0,
+    contrepartieTVA: hasCode ? (Number(vatAccount) || vatAccount) : 0,
+    dcTVA: hasCode ? 2 : 0,
+    montantTVA: vatAmount ? -vatAmount : 0,
+    montantTVAME: vatAmountME ? -vatAmountME : 0,
+    typeTVA: hasCode ? (vatKind === 'output' ? 1 : 2) : 0
+  };
+};
+
 // Transform data according to the specified rules
-export const transformData = (jsonData: ExcelRow[]): ExcelRow[] => {
-  return jsonData.map((row, index) => {
+export const transformData = (jsonData: ExcelRow[], options: TransformOptions = {}): ExcelRow[] => {
+  const vatCodes = loadVatCodes();
+  const debitCreditMode = options.debitCreditMode || 'sign';
+  const mandate = getActiveMandate();
+  const vatSettings = options.vatSettings || mandate.vatSettings;
+  const mandantNumber = options.mandantNumber ?? mandate.mandantNumber;
+
+  return planEntries(jsonData).map(({ row, entryNumber, position }) => {
     const codeTVA = row["Code TVA"];
-    const montant = row["Montant"] || 0;
+    const side = resolveDebitCredit(row, debitCreditMode);
+    const dc = side.dc;
+    const { devise, montant, montantME, cours } = resolveForeignCurrency(row, side.montant, debitCreditMode);
+    const isForeign = devise !== BASE_CURRENCY;
     const texte1 = row["Texte1"] ? String(row["Texte1"]).substring(0, 80) : "";
+    // Unreadable dates are kept as they are, the validation report lists them
+    const parsedDate = tryParseDate(row["Date"]);
+    const date = parsedDate ? formatAbacusDate(parsedDate) : String(row["Date"] ?? "");
+
+    const { tauxTVA, tvaIncl, coeffTVA, compteTVA, contrepartieTVA, dcTVA, montantTVA, montantTVAME, typeTVA } =
+      computeVatFields({ codeTVA, compte: row["Compte"], date, montant, montantME, isForeign, dc }, vatSettings, vatCodes);
 
-    const tauxTVA = codeTVA ? (tauxTVAMapping[codeTVA] || 0) : 0;
-    const tvaIncl = codeTVA ? "I" : "";
-    const coeffTVA = 100;
-    const compteTVA = codeTVA ? row["Compte"] || 0 : 0;
-    const contrepartieTVA = codeTVA ? 1172 : 0;
-    const dcTVA = codeTVA ? 2 : 0;
-    const montantTVA = tauxTVA > 0 ? -(Math.round((montant - (montant / (1 + tauxTVA / 100))) * 100) / 100) : 0;
-    const typeTVA = codeTVA ? 2 : 0;
+    // Cost centres and projects (KST/KTR) from the optional analytical columns
+    const analytical = Object.fromEntries(
+      costCentreColumns.map(({ input, output }) => [output, toCostCentreValue(row[input])])
+    );
 
     return {
-      "N° enregistrement": index + 1, 
+      "N° enregistrement": entryNumber, 
       "Version": "J", 
-      "Date": convertToAbacusDate(row["Date"]), 
+      "Date": date, 
       "Compte": row["Compte"],
       "Contrepartie": row["Contrepartie"] || "", 
       "Texte1": texte1, 
       "Montant": montant, 
       "Texte2": "",
-      "DC": "D", 
+      "DC": dc, 
       "Niveau d'imputation 1": 0, 
       "Contrepartie niveau d'imputation 1": 0, 
       "Numéro du document": "",
-      "Cours": 0, 
-      "Gre cours": "", 
-      "Montant ME": 0, 
-      "Identificateur écriture collective": "",
+      "Cours": cours, 
+      "Gre cours": isForeign ? 1 : "", 
+      "Montant ME": montantME, 
+      "Identificateur écriture collective": position > 0 ? COLLECTIVE_IDENTIFIER : "",
       "Spec1": "", 
       "Applicationidentification": "F", 
       "Réserve": "", 
       "Date de valeur": "", 
-      "Position coll.": 0,
-      "ISO": "CHF", 
+      "Position coll.": position,
+      "N° mandant": mandantNumber,
+      "ISO": devise, 
       "ISO2": "CHF", 
       "Quantité": 0, 
       "Taux": 0, 
@@ -123,14 +346,14 @@ export const transformData = (jsonData: ExcelRow[]): ExcelRow[] => {
       "Code TVA": codeTVA,
       "Taux TVA": tauxTVA, 
       "TVA incl.": tvaIncl, 
-      "Méthode TVA": 2, 
+      "Méthode TVA": vatSettings.taxMethod, 
       "Pays de TVA": "CH", 
       "Coeff. TVA": coeffTVA,
       "Compte TVA": compteTVA, 
       "Contrepartie TVA": contrepartieTVA, 
       "DC TVA": dcTVA, 
       "Montant TVA": montantTVA,
-      "TVA montant ME": 0, 
+      "TVA montant ME": montantTVAME, 
       "Reste montant TVA": 0, 
       "Reste TVA montant ME": 0, 
       "Type TVA": typeTVA, 
@@ -144,113 +367,403 @@ export const transformData = (jsonData: ExcelRow[]): ExcelRow[] => {
       "Cours2": 0, 
       "Code de consolidation": "", 
       "Niveau d'imputation 3": 0,
-      "Contrepartie niveau d'imputation 3": 0
+      "Contrepartie niveau d'imputation 3": 0,
+      ...analytical,
+      // Not part of the F11 layout, left out of the exported sheet
+      ...(row[sourceColumn] ? { [sourceColumn]: row[sourceColumn] } : {})
     };
   });
 };
 
-// Generate summary statistics from transformed data
-export interface SummaryData {
-  totalTransactions: number;
-  encaissements: {
-    count: number;
-    total: number;
-    details: { 
-      [key: string]: {
-        count: number;
-        total: number;
+// Columns of an output row that can be corrected in the preview grid
+export const editableColumns = ["Compte", "Contrepartie", "Texte1", "Montant", "Code TVA"] as const;
+export type EditableColumn = typeof editableColumns[number];
+
+// Account numbers stay numbers in the output, as read from the input file
+const toAccountValue = (value: string): number | string => {
+  const text = value.trim();
+  return /^\d+$/.test(text) ? parseInt(text, 10) : text;
+};
+
+// Apply a correction to an output row and recalculate the fields depending on it
+export const updateEntry = (
+  row: ExcelRow,
+  column: EditableColumn,
+  value: string,
+  options: TransformOptions = {}
+): ExcelRow => {
+  const debitCreditMode = options.debitCreditMode || 'sign';
+  const vatSettings = options.vatSettings || getActiveMandate().vatSettings;
+  const updated: ExcelRow = { ...row };
+
+  switch (column) {
+    case "Compte":
+    case "Contrepartie":
+      updated[column] = toAccountValue(value);
+      break;
+    case "Texte1":
+      updated["Texte1"] = value.substring(0, 80);
+      break;
+    case "Code TVA":
+      updated["Code TVA"] = value.trim() === "" ? "" : toAccountValue(value);
+      break;
+    case "Montant": {
+      let montant = roundAmount(parseAmount(value.replace(/'/g, '').replace(',', '.')));
+      // With an explicit side a negative amount is booked on the other side
+      if (debitCreditMode !== 'sign' && montant < 0) {
+        montant = -montant;
+        updated["DC"] = updated["DC"] === 'C' ? 'D' : 'C';
       }
-    };
+      updated["Montant"] = montant;
+      // The foreign amount is kept, the rate follows the corrected CHF amount
+      const montantME = parseAmount(updated["Montant ME"]);
+      if (updated["ISO"] && updated["ISO"] !== BASE_CURRENCY && montantME) {
+        updated["Cours"] = Math.abs(Math.round((montant / montantME) * 100000) / 100000);
+      }
+      break;
+    }
+  }
+
+  const isForeign = !!updated["ISO"] && updated["ISO"] !== BASE_CURRENCY;
+  const vat = computeVatFields({
+    codeTVA: updated["Code TVA"],
+    compte: updated["Compte"],
+    date: String(updated["Date"] || ""),
+    montant: parseAmount(updated["Montant"]),
+    montantME: parseAmount(updated["Montant ME"]),
+    isForeign,
+    dc: updated["DC"] === 'C' ? 'C' : 'D'
+  }, vatSettings, loadVatCodes());
+
+  return {
+    ...updated,
+    "Taux TVA": vat.tauxTVA,
+    "TVA incl.": vat.tvaIncl,
+    "Coeff. TVA": vat.coeffTVA,
+    "Compte TVA": vat.compteTVA,
+    "Contrepartie TVA": vat.contrepartieTVA,
+    "DC TVA": vat.dcTVA,
+    "Montant TVA": vat.montantTVA,
+    "TVA montant ME": vat.montantTVAME,
+    "Type TVA": vat.typeTVA
   };
-  decaissements: {
-    count: number;
-    total: number;
-    salaires: {
-      count: number;
-      amount: number;
-    };
-    achatsDirects: {
-      count: number;
-      amount: number;
+};
+
+// Index in the input data of each output row, collective entries bring their lines together
+export const entryInputIndexes = (jsonData: ExcelRow[]): number[] => {
+  const indexes = new Map(jsonData.map((row, i) => [row, i]));
+  return planEntries(jsonData).map(({ row }) => indexes.get(row) as number);
+};
+
+// Carry a correction of the preview grid back to the input row, so that it is validated again
+export const applyEntryEditToInput = (
+  inputRow: ExcelRow,
+  entry: ExcelRow,
+  column: EditableColumn,
+  debitCreditMode: DebitCreditMode = 'sign'
+): ExcelRow => {
+  if (column !== "Montant") {
+    return { ...inputRow, [column]: entry[column] };
+  }
+
+  const montant = entry["Montant"];
+  if (debitCreditMode === 'split') {
+    return {
+      ...inputRow,
+      [debitColumn]: entry["DC"] === 'C' ? "" : montant,
+      [creditColumn]: entry["DC"] === 'C' ? montant : ""
     };
-    achatsIndirects: {
+  }
+  if (debitCreditMode === 'column') {
+    return { ...inputRow, "Montant": montant, [debitCreditColumn]: entry["DC"] };
+  }
+  return { ...inputRow, "Montant": montant };
+};
+
+// VAT code that could not be resolved reliably for the booking date of a row
+export interface VatWarning {
+  rowNumber: number;
+  date: string;
+  code: string;
+  message: string;
+}
+
+const isoToAbacusDate = (isoDate: string): string => isoDate.split('-').reverse().join('.');
+
+// Flag rows whose VAT code is unknown or not valid on the booking date: a date before the
+// first period of the code (e.g. a 2023 entry with a code created for the 2024 rates), after
+// its last period, or in a gap between two periods
+export const checkVatPeriods = (
+  outputData: ExcelRow[],
+  vatCodes: VatCodeDefinition[] = loadVatCodes()
+): VatWarning[] => {
+  const warnings: VatWarning[] = [];
+
+  outputData.forEach((row) => {
+    const code = row["Code TVA"];
+    if (code === undefined || code === null || code === "") return;
+
+    const date = String(row["Date"] || "");
+    const warning = { rowNumber: row["N° enregistrement"], date, code: String(code) };
+    const definition = findVatCode(code, vatCodes);
+
+    if (!definition) {
+      warnings.push({ ...warning, message: `Code TVA ${code} inconnu, aucun taux appliqué` });
+      return;
+    }
+
+    const isoDate = abacusDateToIso(date);
+    if (!isoDate) {
+      warnings.push({ ...warning, message: `Date « ${date} » illisible, taux du jour appliqué` });
+      return;
+    }
+
+    if (findVatPeriod(definition, isoDate)) return;
+
+    const { validFrom, validTo } = getVatCodeValidity(definition);
+    if (validFrom && isoDate < validFrom) {
+      warnings.push({ ...warning, message: `Code TVA ${code} valable seulement dès le ${isoToAbacusDate(validFrom)}, aucun taux appliqué` });
+    } else if (validTo && isoDate > validTo) {
+      warnings.push({ ...warning, message: `Code TVA ${code} plus valable après le ${isoToAbacusDate(validTo)}, aucun taux appliqué` });
+    } else {
+      warnings.push({ ...warning, message: `Code TVA ${code} non valable au ${date}, aucun taux appliqué` });
+    }
+  });
+
+  return warnings;
+};
+
+// Generate summary statistics from transformed data
+export interface CurrencySummary {
+  count: number;
+  total: number; // CHF
+  totalME: number; // in the currency itself, 0 for CHF
+}
+
+export interface UnbalancedCollectiveEntry {
+  entryNumber: number;
+  difference: number;
+}
+
+export interface CollectiveSummary {
+  count: number;
+  lineCount: number;
+  unbalanced: UnbalancedCollectiveEntry[];
+}
+
+// Lines of a collective entry without counter-account must balance each other,
+// a line with both accounts balances by itself
+export const checkCollectiveEntries = (outputData: ExcelRow[]): CollectiveSummary => {
+  const balances = new Map<number, { lines: number; net: number }>();
+
+  outputData
+    .filter(row => row["Position coll."] > 0)
+    .forEach(row => {
+      const entryNumber = row["N° enregistrement"];
+      const balance = balances.get(entryNumber) || { lines: 0, net: 0 };
+      balance.lines++;
+      if (!row["Contrepartie"]) {
+        balance.net += signedAmount(row);
+      }
+      balances.set(entryNumber, balance);
+    });
+
+  const unbalanced: UnbalancedCollectiveEntry[] = [];
+  let lineCount = 0;
+  balances.forEach((balance, entryNumber) => {
+    lineCount += balance.lines;
+    const difference = roundAmount(balance.net);
+    if (Math.abs(difference) > 0.005) {
+      unbalanced.push({ entryNumber, difference });
+    }
+  });
+
+  return { count: balances.size, lineCount, unbalanced };
+};
+
+// Expected balances of the bank account, entered or read from a bank statement
+export interface BankBalanceControl {
+  account: string;
+  opening: number;
+  closing: number;
+}
+
+export interface BalanceCheck extends BankBalanceControl {
+  movementCount: number;
+  movements: number; // debits minus credits on the account
+  computedClosing: number;
+  difference: number; // computed minus expected closing balance
+}
+
+// Opening balance plus the movements booked on the bank account, on either side, against the expected closing
+export const checkBankBalance = (outputData: ExcelRow[], control: BankBalanceControl): BalanceCheck => {
+  const account = control.account.trim();
+  let movementCount = 0;
+  let movements = 0;
+
+  outputData.forEach(row => {
+    if (String(row["Compte"] ?? "").trim() === account) {
+      movements += signedAmount(row);
+      movementCount++;
+    }
+    if (String(row["Contrepartie"] ?? "").trim() === account) {
+      movements -= signedAmount(row);
+      movementCount++;
+    }
+  });
+
+  const computedClosing = roundAmount(control.opening + movements);
+  return {
+    ...control,
+    account,
+    movementCount,
+    movements: roundAmount(movements),
+    computedClosing,
+    difference: roundAmount(computedClosing - control.closing)
+  };
+};
+
+export interface CategorySummary {
+  name: string;
+  count: number;
+  total: number;
+  details: {
+    [compte: string]: {
+      name: string; // from the chart of accounts, empty without one
       count: number;
-      amount: number;
+      total: number;
     };
   };
 }
 
-export const generateSummary = (outputData: ExcelRow[]): SummaryData => {
-  let encaissements = { 
-    count: 0, 
-    total: 0, 
-    details: {} as { [key: string]: { count: number; total: number } }
-  };
-  
-  let decaissements = { 
-    count: 0, 
-    total: 0,
-    salaires: { count: 0, amount: 0 },
-    achatsDirects: { count: 0, amount: 0 },
-    achatsIndirects: { count: 0, amount: 0 }
-  };
+export interface SummaryData {
+  totalTransactions: number;
+  collectiveEntries: CollectiveSummary;
+  vatWarnings: VatWarning[];
+  duplicates: DuplicateEntry[];
+  balanceCheck: BalanceCheck | null;
+  currencies: { [iso: string]: CurrencySummary };
+  categories: CategorySummary[];
+}
+
+// Each row is counted in the first category matching its account, or in "Autres";
+// duplicates are searched within the rows and in the files already exported for the mandate
+export const generateSummary = (
+  outputData: ExcelRow[],
+  accounts: ChartAccount[] = [],
+  categoryDefinitions: SummaryCategoryDefinition[] = getActiveMandate().summaryCategories,
+  exportedBatches: ExportedBatch[] = loadExportedBatches(getActiveMandate().id),
+  balanceControl: BankBalanceControl | null = null
+): SummaryData => {
+  const matchers = buildCategoryMatchers(categoryDefinitions, accounts);
+  const categories: CategorySummary[] = [...matchers.map(matcher => matcher.name), OTHER_CATEGORY_NAME]
+    .map(name => ({ name, count: 0, total: 0, details: {} }));
+
+  const currencies: { [iso: string]: CurrencySummary } = {};
 
   outputData.forEach((row) => {
     const compte = row["Compte"];
-    const montant = parseFloat(row["Montant"]) || 0;
-
-    if (compte >= 1000 && compte <= 1999) {
-      encaissements.count++;
-      encaissements.total += montant;
-      
-      if (!encaissements.details[compte]) {
-        encaissements.details[compte] = { count: 0, total: 0 };
-      }
-      
-      encaissements.details[compte].count++;
-      encaissements.details[compte].total += montant;
-    } else {
-      decaissements.count++;
-      decaissements.total += montant;
-      
-      if (compte == 2299) {
-        decaissements.salaires.count++;
-        decaissements.salaires.amount += montant;
-      }
-      
-      if (compte >= 4000 && compte <= 4999) {
-        decaissements.achatsDirects.count++;
-        decaissements.achatsDirects.amount += montant;
-      }
-      
-      if (compte >= 6000 && compte <= 8999) {
-        decaissements.achatsIndirects.count++;
-        decaissements.achatsIndirects.amount += montant;
-      }
+    const montant = signedAmount(row);
+
+    const iso = row["ISO"] || BASE_CURRENCY;
+    if (!currencies[iso]) {
+      currencies[iso] = { count: 0, total: 0, totalME: 0 };
+    }
+    const montantME = parseFloat(row["Montant ME"]) || 0;
+    currencies[iso].count++;
+    currencies[iso].total += montant;
+    currencies[iso].totalME += row["DC"] === "C" ? -montantME : montantME;
+
+    const index = matchers.findIndex(matcher => matcher.matches(compte));
+    const category = categories[index >= 0 ? index : categories.length - 1];
+    category.count++;
+    category.total += montant;
+
+    if (!category.details[compte]) {
+      category.details[compte] = { name: findAccount(compte, accounts)?.name || "", count: 0, total: 0 };
     }
+    category.details[compte].count++;
+    category.details[compte].total += montant;
   });
 
   return {
     totalTransactions: outputData.length,
-    encaissements,
-    decaissements
+    collectiveEntries: checkCollectiveEntries(outputData),
+    vatWarnings: checkVatPeriods(outputData),
+    duplicates: findDuplicates(outputData, exportedBatches),
+    balanceCheck: balanceControl ? checkBankBalance(outputData, balanceControl) : null,
+    currencies,
+    // "Autres" is only listed when some rows fall into it
+    categories: categories.filter(category => category.name !== OTHER_CATEGORY_NAME || category.count > 0)
   };
 };
 
-// Create Excel file from transformed data
-export const createExcelFile = (data: ExcelRow[]): XLSX.WorkBook => {
-  const outputSheet = XLSX.utils.json_to_sheet(data, { header: outputColumns });
+// Summary sheet added after the entries: totals per category, then per account
+const createSummarySheet = (summary: SummaryData): XLSX.WorkSheet => {
+  const rows: (string | number)[][] = [
+    ["Résumé des transactions"],
+    ["Total transactions", summary.totalTransactions],
+    ["Écritures collectives", summary.collectiveEntries.count],
+    ["Codes TVA à vérifier", summary.vatWarnings.length],
+    ["Doublons possibles", summary.duplicates.length],
+    [],
+    ...(summary.balanceCheck ? [
+      ["Contrôle du compte", summary.balanceCheck.account],
+      ["Solde d'ouverture", summary.balanceCheck.opening],
+      ["Mouvements", summary.balanceCheck.movements],
+      ["Solde calculé", summary.balanceCheck.computedClosing],
+      ["Solde de clôture attendu", summary.balanceCheck.closing],
+      ["Écart", summary.balanceCheck.difference],
+      []
+    ] : []),
+    ["Catégorie", "Nombre", "Total CHF"],
+    ...summary.categories.map(category => [category.name, category.count, roundAmount(category.total)]),
+    [],
+    ["Catégorie", "Compte", "Libellé", "Nombre", "Total CHF"]
+  ];
+
+  summary.categories.forEach(category => {
+    Object.entries(category.details).forEach(([compte, detail]) => {
+      rows.push([category.name, compte, detail.name, detail.count, roundAmount(detail.total)]);
+    });
+  });
+
+  return XLSX.utils.aoa_to_sheet(rows);
+};
+
+// Create Excel file from transformed data, with the summary as a second sheet when given
+export const createExcelFile = (data: ExcelRow[], summary?: SummaryData): XLSX.WorkBook => {
+  const entries = data.map(({ [sourceColumn]: _source, ...row }) => row);
+  const outputSheet = XLSX.utils.json_to_sheet(entries, { header: outputColumns });
   const outputWorkbook = XLSX.utils.book_new();
   XLSX.utils.book_append_sheet(outputWorkbook, outputSheet, 'Ecritures');
+  if (summary) {
+    XLSX.utils.book_append_sheet(outputWorkbook, createSummarySheet(summary), 'Résumé');
+  }
   return outputWorkbook;
 };
 
-// Download Excel file
-export const downloadExcelFile = (workbook: XLSX.WorkBook, filename: string = 'F11_Ecritures.xlsx'): void => {
+// Download Excel file, the file is returned for the export history
+export const downloadExcelFile = (workbook: XLSX.WorkBook, filename: string = 'F11_Ecritures.xlsx'): Blob => {
   const wbout = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
   const blob = new Blob([wbout], { type: 'application/octet-stream' });
   const link = document.createElement('a');
   link.href = URL.createObjectURL(blob);
   link.download = filename;
   link.click();
+  return blob;
+};
+
+// Row count, debit and credit totals and one line per entry, as kept in the export history.
+// The side follows the signed amount, so that negative amounts of the sign mode count as credits.
+export const describeF11Export = (data: ExcelRow[]) => {
+  const amounts = data.map(signedAmount);
+  return {
+    rowCount: data.length,
+    totals: {
+      "Débit": roundAmount(amounts.filter(amount => amount > 0).reduce((sum, amount) => sum + amount, 0)),
+      "Crédit": roundAmount(-amounts.filter(amount => amount < 0).reduce((sum, amount) => sum + amount, 0))
+    },
+    lines: data.map(row => [row["Date"], row["Compte"], row["Contrepartie"], row["DC"], row["Montant"], row["Texte1"]].join(" | "))
+  };
 };
@@ -0,0 +1,147 @@
+import { MandateProfile } from './mandateUtils';
+
+// Pages producing a file, as shown in the history
+export type ExportPage = 'F11' | 'CAMT' | 'DEBI' | 'PDF' | 'RECO';
+
+export const exportPageLabels: Record<ExportPage, string> = {
+  F11: "Écritures F11",
+  CAMT: "Convertisseur CAMT",
+  DEBI: "DebFactManager",
+  PDF: "PDF → Excel",
+  RECO: "Rapprochement"
+};
+
+export interface ExportRecord {
+  id?: number;
+  fileName: string;
+  page: ExportPage;
+  mandateId: string;
+  mandateName: string;
+  createdAt: string; // ISO timestamp
+  rowCount: number;
+  totals: Record<string, number>; // e.g. { "Débit": 1200, "Crédit": 800 }
+  checksum: string; // SHA-256 of the file
+  lines: string[]; // one text per exported line, used to compare two exports
+  content: Blob;
+}
+
+export type NewExport = Pick<ExportRecord, 'fileName' | 'page' | 'rowCount' | 'totals' | 'lines' | 'content'>;
+
+export interface ExportComparison {
+  identical: boolean; // same checksum
+  rowCountDifference: number; // second minus first
+  totalDifferences: Record<string, number>;
+  onlyInFirst: string[];
+  onlyInSecond: string[];
+}
+
+const DB_NAME = 'exceltoabacus';
+const DB_VERSION = 1;
+const EXPORTS_STORE = 'exports';
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(EXPORTS_STORE, { keyPath: 'id', autoIncrement: true });
+      store.createIndex('createdAt', 'createdAt');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Run one request on the exports store and resolve with its result
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = action(db.transaction(EXPORTS_STORE, mode).objectStore(EXPORTS_STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const computeChecksum = async (content: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await content.arrayBuffer());
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Store a downloaded file with the mandate of the page that produced it; a failure only loses the history entry
+export const recordExport = async (file: NewExport, mandate: Pick<MandateProfile, 'id' | 'name'>): Promise<void> => {
+  try {
+    const record: ExportRecord = {
+      ...file,
+      mandateId: mandate.id,
+      mandateName: mandate.name,
+      createdAt: new Date().toISOString(),
+      checksum: await computeChecksum(file.content)
+    };
+    await withStore('readwrite', store => store.add(record));
+  } catch (err) {
+    console.error("Impossible d'enregistrer l'export dans l'historique", err);
+  }
+};
+
+// Most recent first
+export const listExports = async (): Promise<ExportRecord[]> => {
+  const records = await withStore<ExportRecord[]>('readonly', store => store.getAll());
+  return records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const deleteExport = (id: number): Promise<undefined> => {
+  return withStore('readwrite', store => store.delete(id));
+};
+
+// Delete the exports created before the given date, returns how many were deleted
+export const purgeExportsBefore = async (date: Date): Promise<number> => {
+  const old = (await listExports()).filter(record => new Date(record.createdAt) < date);
+  for (const record of old) {
+    await deleteExport(record.id as number);
+  }
+  return old.length;
+};
+
+export const downloadBlob = (content: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(content);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Lines are compared as multisets, a line exported twice in one file must be twice in the other
+const linesMissingFrom = (lines: string[], other: string[]): string[] => {
+  const remaining = new Map<string, number>();
+  other.forEach(line => remaining.set(line, (remaining.get(line) || 0) + 1));
+  return lines.filter(line => {
+    const count = remaining.get(line) || 0;
+    if (count === 0) return true;
+    remaining.set(line, count - 1);
+    return false;
+  });
+};
+
+export const compareExports = (first: ExportRecord, second: ExportRecord): ExportComparison => {
+  const totalDifferences: Record<string, number> = {};
+  new Set([...Object.keys(first.totals), ...Object.keys(second.totals)]).forEach(key => {
+    totalDifferences[key] = Math.round(((second.totals[key] || 0) - (first.totals[key] || 0)) * 100) / 100;
+  });
+
+  return {
+    identical: first.checksum === second.checksum,
+    rowCountDifference: second.rowCount - first.rowCount,
+    totalDifferences,
+    onlyInFirst: linesMissingFrom(first.lines, second.lines),
+    onlyInSecond: linesMissingFrom(second.lines, first.lines)
+  };
+};
@@ -0,0 +1,156 @@
+import { DEFAULT_VAT_SETTINGS, VatSettings } from './vatUtils';
+import { DEFAULT_SUMMARY_CATEGORIES, SummaryCategoryDefinition } from './summaryUtils';
+import { SavedColumnMapping } from './columnMappingUtils';
+import { BookingRule } from './bookingRuleUtils';
+
+// Per-client defaults read by every converter
+export interface MandateProfile {
+  id: string;
+  name: string;
+  mandantNumber: string; // "N° mandant" of the F11 file
+  collectiveAccount: string; // debtor collective account of the DEBI XML
+  bankAccount: string; // bank account whose balance is checked in the F11 summary
+  supplierStartNumber: number;
+  customerStartNumber: number;
+  userMapping: Record<string, string>; // Abacus ModificationUser id -> name
+  vatSettings: VatSettings;
+  summaryCategories: SummaryCategoryDefinition[];
+  columnMappings: SavedColumnMapping[]; // header mappings of the client's files
+  bookingRules: BookingRule[]; // accounts assigned to bank movements, first match wins
+}
+
+export interface MandateState {
+  profiles: MandateProfile[];
+  activeId: string;
+}
+
+const MANDATES_STORAGE_KEY = 'exceltoabacus.mandates';
+const ACTIVE_MANDATE_STORAGE_KEY = 'exceltoabacus.activeMandate';
+const LEGACY_VAT_SETTINGS_STORAGE_KEY = 'exceltoabacus.vatSettings';
+
+// Fixed id, so that the data keyed by mandate stays attached to the default one across calls
+export const DEFAULT_MANDATE_ID = 'default';
+
+export const DEFAULT_USER_MAPPING: Record<string, string> = {
+  "8": "David Gaudin",
+  "9": "Kevin Nahmias",
+  "11": "Eloïse Pitel",
+  "17": "getyoozuneo_ws",
+  "20": "Sameh Ben Amor",
+  "23": "Hamza Bouguerra",
+  "31": "Sylvain Köhli",
+  "33": "Aida Jouini",
+  "98": "Ancien collaborateur",
+  "111": "Mike Cottier",
+  "162": "Mahdi Cherif",
+  "170": "Ancien collaborateur",
+  "186": "Helmi Jouini",
+  "190": "Yohanna Channel",
+  "191": "Mariya Gesheva",
+  "200": "Igor Maia",
+  "247": "Christophe Guillaud",
+  "315": "Lamber FALQUET",
+  "318": "Julien Simmonet",
+  "343": "Bruno LIMA",
+  "369": "Rodolphe Droin",
+  "416": "Jolan Labhard",
+  "417": "Imène Ben Rabeb",
+  "487": "Salem Ben-farhat",
+};
+
+export const createMandate = (name: string, base?: Partial<MandateProfile>): MandateProfile => ({
+  mandantNumber: '',
+  collectiveAccount: '1100',
+  bankAccount: '1020',
+  supplierStartNumber: 450,
+  customerStartNumber: 86,
+  userMapping: { ...DEFAULT_USER_MAPPING },
+  vatSettings: { ...DEFAULT_VAT_SETTINGS },
+  summaryCategories: DEFAULT_SUMMARY_CATEGORIES.map(category => ({ ...category })),
+  columnMappings: [],
+  bookingRules: [],
+  ...base,
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  name
+});
+
+// Fill fields added after a profile was saved or imported
+const normalizeMandate = (profile: Partial<MandateProfile>): MandateProfile => ({
+  ...createMandate(profile.name || 'Mandat'),
+  ...profile,
+  vatSettings: { ...DEFAULT_VAT_SETTINGS, ...profile.vatSettings }
+} as MandateProfile);
+
+const defaultState = (): MandateState => {
+  // VAT settings saved before mandates existed become those of the default mandate
+  let vatSettings = DEFAULT_VAT_SETTINGS;
+  try {
+    const legacy = localStorage.getItem(LEGACY_VAT_SETTINGS_STORAGE_KEY);
+    if (legacy) vatSettings = { ...DEFAULT_VAT_SETTINGS, ...JSON.parse(legacy) };
+  } catch {
+    // keep the defaults
+  }
+
+  const profile = { ...createMandate('Mandat par défaut', { vatSettings }), id: DEFAULT_MANDATE_ID };
+  return { profiles: [profile], activeId: profile.id };
+};
+
+export const loadMandateState = (): MandateState => {
+  let stored: string | null = null;
+  try {
+    stored = localStorage.getItem(MANDATES_STORAGE_KEY);
+    if (stored) {
+      const profiles = (JSON.parse(stored) as Partial<MandateProfile>[]).map(normalizeMandate);
+      if (profiles.length > 0) {
+        const activeId = localStorage.getItem(ACTIVE_MANDATE_STORAGE_KEY) || '';
+        return {
+          profiles,
+          activeId: profiles.some(profile => profile.id === activeId) ? activeId : profiles[0].id
+        };
+      }
+    }
+  } catch (error) {
+    console.error('Mandats illisibles, création du mandat par défaut:', error);
+  }
+
+  const state = defaultState();
+  // Saved on first use; unreadable profiles are left in place rather than overwritten
+  if (!stored) {
+    try {
+      saveMandateState(state);
+    } catch (error) {
+      console.error("Impossible d'enregistrer le mandat par défaut:", error);
+    }
+  }
+  return state;
+};
+
+export const saveMandateState = (state: MandateState): void => {
+  localStorage.setItem(MANDATES_STORAGE_KEY, JSON.stringify(state.profiles));
+  localStorage.setItem(ACTIVE_MANDATE_STORAGE_KEY, state.activeId);
+};
+
+export const getActiveMandate = (state: MandateState = loadMandateState()): MandateProfile => {
+  return state.profiles.find(profile => profile.id === state.activeId) || state.profiles[0];
+};
+
+export const exportMandates = (profiles: MandateProfile[]): string => {
+  return JSON.stringify({ type: 'exceltoabacus-mandates', version: 1, profiles }, null, 2);
+};
+
+// Accepts an export file or a bare array of profiles; imported profiles get new ids
+export const parseMandatesJson = (json: string): MandateProfile[] => {
+  const parsed = JSON.parse(json);
+  const profiles = Array.isArray(parsed) ? parsed : parsed?.profiles;
+
+  if (!Array.isArray(profiles) || profiles.length === 0) {
+    throw new Error('Aucun mandat trouvé dans le fichier JSON');
+  }
+
+  return profiles.map((profile: Partial<MandateProfile>) => {
+    if (!profile || typeof profile.name !== 'string') {
+      throw new Error('Mandat sans nom dans le fichier JSON');
+    }
+    return createMandate(profile.name, normalizeMandate(profile));
+  });
+};
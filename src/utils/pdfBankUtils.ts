@@ -1,4 +1,5 @@
 import * as XLSX from 'xlsx';
+import { toAbacusDate } from './dateUtils';
 
 export type BankType = 'bcge' | 'raiffeisen' | 'creditsuisse';
 
@@ -557,19 +558,21 @@ export const parseCreditSuisseTransactions = (text: string): BankTransaction[] =
 
 /**
  * Parse PDF text based on bank type
+ * Dates are checked by the shared date parser, an impossible date (e.g. 31.02) stops the import
  */
 export const parseTransactionsFromText = (text: string, bankType: BankType = 'bcge'): BankTransaction[] => {
   console.log('Parsing transactions for bank type:', bankType);
- 
+
+  let transactions: BankTransaction[];
   if (bankType === 'raiffeisen') {
-    return parseRaiffeisenTransactions(text);
+    transactions = parseRaiffeisenTransactions(text);
+  } else if (bankType === 'creditsuisse') {
+    transactions = parseCreditSuisseTransactions(text);
+  } else {
+    transactions = parseBCGETransactions(text);
   }
-  
-  if (bankType === 'creditsuisse') {
-    return parseCreditSuisseTransactions(text);
-  }
- 
-  return parseBCGETransactions(text);
+
+  return transactions.map(transaction => ({ ...transaction, date: toAbacusDate(transaction.date) }));
 };
 
 /**
@@ -601,13 +604,26 @@ export const createBankExcelFile = (data: BankTransaction[]): XLSX.WorkBook => {
 };
 
 /**
- * Download Excel file
+ * Download Excel file, returned for the export history
  */
-export const downloadBankExcelFile = (workbook: XLSX.WorkBook, filename: string = 'Releve_Bancaire.xlsx'): void => {
+export const downloadBankExcelFile = (workbook: XLSX.WorkBook, filename: string = 'Releve_Bancaire.xlsx'): Blob => {
   const wbout = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
   const blob = new Blob([wbout], { type: 'application/octet-stream' });
   const link = document.createElement('a');
   link.href = URL.createObjectURL(blob);
   link.download = filename;
   link.click();
+  return blob;
 };
+
+/**
+ * Row count, debit and credit totals and one line per transaction, as kept in the export history
+ */
+export const describeBankExport = (data: BankTransaction[]) => ({
+  rowCount: data.length,
+  totals: {
+    'Débit': Math.round(data.reduce((sum, row) => sum + (row.debit || 0), 0) * 100) / 100,
+    'Crédit': Math.round(data.reduce((sum, row) => sum + (row.credit || 0), 0) * 100) / 100
+  },
+  lines: data.map(row => [row.date, row.debit ?? '', row.credit ?? '', row.description].join(' | '))
+});
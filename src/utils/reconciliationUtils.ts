@@ -0,0 +1,194 @@
+import * as XLSX from 'xlsx';
+import { CamtData } from './camtUtils';
+import { BASE_CURRENCY, ExcelRow } from './excelUtils';
+import { formatAbacusDate, tryParseDate, workbookDateSystem } from './dateUtils';
+
+// An unpaid debtor invoice
+export interface OpenItem {
+  invoiceNumber: string;
+  customer: string;
+  date: string; // dd.mm.yyyy, as read when the date is not recognised
+  amount: number;
+  reference: string; // QR or SCOR reference of the payment slip
+  text: string;
+}
+
+export type MatchStatus = 'exact' | 'partial' | 'overpaid' | 'amount' | 'foreign' | 'unmatched';
+
+export const matchStatusLabels: Record<MatchStatus, string> = {
+  exact: "Exact",
+  partial: "Paiement partiel",
+  overpaid: "Paiement excédentaire",
+  amount: "Montant seul (à vérifier)",
+  foreign: "Devise étrangère",
+  unmatched: "Non rapproché"
+};
+
+export interface PaymentMatch {
+  payment: CamtData;
+  reference: string;
+  amount: number;
+  item: OpenItem | null;
+  openBefore: number; // amount still open before this payment
+  difference: number; // paid minus open, negative for a partial payment
+  status: MatchStatus;
+}
+
+export interface ReconciliationResult {
+  matches: PaymentMatch[];
+  remainingItems: OpenItem[]; // invoices that received no payment
+}
+
+// Total columns first, so that "Total à payer" is preferred over the line "Montant" of a DebFactManager file
+const TOTAL_HEADER = /total|solde|ouvert|offen|open|restant/i;
+const AMOUNT_HEADER = /montant|betrag|amount/i;
+const REFERENCE_HEADER = /r[ée]f[ée]rence|referenz|reference|\bqr\b|esr|bvr/i;
+const DATE_HEADER = /date|datum/i;
+const INVOICE_HEADER = /facture|rechnung|invoice|beleg|document|^n[o°]/i;
+const CUSTOMER_HEADER = /client|kunde|customer|d[ée]biteur|debitor/i;
+const TEXT_HEADER = /libell|texte|text|description|bezeichnung/i;
+
+// Spaces and leading zeros are not significant in a QR reference, SCOR references are upper case
+export const normalizeReference = (reference: string): string => {
+  return reference.replace(/\s/g, '').toUpperCase().replace(/^0+/, '');
+};
+
+const toAmount = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  return parseFloat(String(value ?? '').replace(/['\s]/g, '').replace(',', '.')) || 0;
+};
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Read an open-items list: a DebFactManager input file (one line per invoice line, the
+ * "Total à payer" of the first line is kept) or any list with a reference and an amount column.
+ */
+export const readOpenItems = (workbook: XLSX.WorkBook): OpenItem[] => {
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  const rows = XLSX.utils.sheet_to_json(sheet, { header: 1 }) as unknown[][];
+  const headers = (rows[0] || []).map(cell => String(cell ?? '').trim());
+  const dateSystem = workbookDateSystem(workbook);
+
+  const find = (pattern: RegExp, excluded: number[] = []) =>
+    headers.findIndex((header, i) => !excluded.includes(i) && pattern.test(header));
+
+  const referenceIndex = find(REFERENCE_HEADER);
+  const dateIndex = find(DATE_HEADER, [referenceIndex]);
+  const totalIndex = find(TOTAL_HEADER, [referenceIndex, dateIndex]);
+  const amountIndex = totalIndex >= 0 ? totalIndex : find(AMOUNT_HEADER, [referenceIndex, dateIndex]);
+  const invoiceIndex = find(INVOICE_HEADER, [referenceIndex, dateIndex, amountIndex]);
+  const customerIndex = find(CUSTOMER_HEADER, [referenceIndex, dateIndex, amountIndex, invoiceIndex]);
+  const textIndex = find(TEXT_HEADER, [referenceIndex, dateIndex, amountIndex, invoiceIndex, customerIndex]);
+
+  if (referenceIndex < 0 || amountIndex < 0) {
+    throw new Error("Colonnes introuvables : la liste doit contenir une colonne de référence de paiement et une colonne de montant");
+  }
+
+  const cell = (row: unknown[], index: number) => (index >= 0 ? row[index] : undefined);
+  const items = new Map<string, OpenItem>();
+
+  rows.slice(1).forEach((row, rowIndex) => {
+    const reference = String(cell(row, referenceIndex) ?? '').trim();
+    if (!reference) return;
+
+    const invoiceNumber = String(cell(row, invoiceIndex) ?? '').trim();
+    const key = invoiceNumber || `${reference}#${rowIndex}`;
+    const amount = toAmount(cell(row, amountIndex));
+    const existing = items.get(key);
+
+    // Lines of the same invoice: a total is repeated on every line, line amounts add up
+    if (existing) {
+      if (totalIndex < 0) existing.amount = roundAmount(existing.amount + amount);
+      return;
+    }
+
+    const date = tryParseDate(cell(row, dateIndex), dateSystem);
+    items.set(key, {
+      invoiceNumber,
+      customer: String(cell(row, customerIndex) ?? '').trim(),
+      date: date ? formatAbacusDate(date) : String(cell(row, dateIndex) ?? ''),
+      amount: roundAmount(amount),
+      reference,
+      text: String(cell(row, textIndex) ?? '').trim()
+    });
+  });
+
+  return Array.from(items.values());
+};
+
+const isBaseCurrency = (payment: CamtData): boolean => {
+  const currency = payment.devise.trim().toUpperCase();
+  return currency === '' || currency === BASE_CURRENCY;
+};
+
+/**
+ * Match the credits of the CAMT files with the open items by QR/SCOR reference. A payment is
+ * exact when it settles what is still open on the invoice, partial when less is paid and overpaid
+ * when more is paid; successive payments of the same invoice are compared with the remaining amount.
+ * A CHF credit without a known reference falls back to the amount, only when it is the only such
+ * credit of that amount and exactly one invoice still without payment is open for it; such matches
+ * keep the 'amount' status to be checked. Invoices are in CHF: foreign currency credits are not
+ * compared with them and keep the 'foreign' status, they are left out of the export.
+ */
+export const matchPayments = (payments: CamtData[], items: OpenItem[]): ReconciliationResult => {
+  const byReference = new Map<string, OpenItem>();
+  items.forEach(item => byReference.set(normalizeReference(item.reference), item));
+  const paid = new Map<OpenItem, number>();
+
+  const byReferenceMatches = payments
+    .filter(payment => payment.creditDebit !== 'DBIT')
+    .map((payment): PaymentMatch => {
+      const reference = payment.referenceStructuree || payment.referenceProprietaire;
+      const amount = roundAmount(parseFloat(payment.montant) || 0);
+      if (!isBaseCurrency(payment)) {
+        return { payment, reference, amount, item: null, openBefore: 0, difference: 0, status: 'foreign' };
+      }
+
+      const item = reference ? byReference.get(normalizeReference(reference)) || null : null;
+      if (!item) {
+        return { payment, reference, amount, item: null, openBefore: 0, difference: 0, status: 'unmatched' };
+      }
+
+      const openBefore = roundAmount(item.amount - (paid.get(item) || 0));
+      paid.set(item, (paid.get(item) || 0) + amount);
+      const difference = roundAmount(amount - openBefore);
+      const status: MatchStatus = difference === 0 ? 'exact' : difference < 0 ? 'partial' : 'overpaid';
+
+      return { payment, reference, amount, item, openBefore, difference, status };
+    });
+
+  // Amounts only once every reference is matched, so that a fallback never takes an invoice paid by reference
+  const withoutReference = byReferenceMatches.filter(match => match.status === 'unmatched');
+  const matches = byReferenceMatches.map((match): PaymentMatch => {
+    if (match.status !== 'unmatched' || match.amount <= 0) return match;
+
+    const candidates = items.filter(item => !paid.has(item) && item.amount === match.amount);
+    const samePayments = withoutReference.filter(other => other.amount === match.amount);
+    if (candidates.length !== 1 || samePayments.length !== 1) return match;
+
+    const item = candidates[0];
+    paid.set(item, match.amount);
+    return { ...match, item, openBefore: item.amount, difference: 0, status: 'amount' };
+  });
+
+  return { matches, remainingItems: items.filter(item => !paid.has(item)) };
+};
+
+// F11 input rows of the matched payments: bank debited, debtor collective account credited
+export const matchedPaymentRows = (matches: PaymentMatch[], bankAccount: string, collectiveAccount: string): ExcelRow[] => {
+  return matches
+    .filter(match => match.item)
+    .map(match => {
+      const item = match.item as OpenItem;
+      const date = tryParseDate(match.payment.dateComptabilisation) || tryParseDate(match.payment.dateValeur);
+      return {
+        "Date": date ? formatAbacusDate(date) : match.payment.dateComptabilisation,
+        "Compte": bankAccount,
+        "Contrepartie": collectiveAccount,
+        "Texte1": [`Paiement facture ${item.invoiceNumber || item.reference}`, item.customer].filter(Boolean).join(' - '),
+        "Montant": match.amount,
+        "Code TVA": ""
+      };
+    });
+};
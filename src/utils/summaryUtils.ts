@@ -0,0 +1,72 @@
+import { ChartAccount, findAccount } from './accountUtils';
+
+// A summary bucket: accounts given as ranges, single accounts or classes,
+// e.g. "1000-1999; 2299; classe 5"
+export interface SummaryCategoryDefinition {
+  name: string;
+  accounts: string;
+}
+
+// Reproduces the historical summary (encaissements, salaires, achats directs et indirects)
+export const DEFAULT_SUMMARY_CATEGORIES: SummaryCategoryDefinition[] = [
+  { name: "Encaissements", accounts: "classe 1" },
+  { name: "Salaires", accounts: "2299" },
+  { name: "Achats directs", accounts: "classe 4" },
+  { name: "Achats indirects", accounts: "classe 6; classe 7; classe 8" }
+];
+
+// Rows matching no category are counted in this bucket
+export const OTHER_CATEGORY_NAME = "Autres";
+
+type AccountMatcher = (account: string, accountClass: number) => boolean;
+
+const parseToken = (token: string): AccountMatcher | null => {
+  const range = /^(\d+)\s*-\s*(\d+)$/.exec(token);
+  if (range) {
+    const from = parseInt(range[1], 10);
+    const to = parseInt(range[2], 10);
+    return (account) => Number(account) >= from && Number(account) <= to;
+  }
+  if (/^\d+$/.test(token)) {
+    return (account) => account === token;
+  }
+  const accountClass = /^(?:classe|klasse|class)\s*(\d)$/i.exec(token);
+  if (accountClass) {
+    const expected = parseInt(accountClass[1], 10);
+    return (_account, actual) => actual === expected;
+  }
+  return null;
+};
+
+const splitTokens = (spec: string): string[] => spec.split(/[;,]/).map(token => token.trim()).filter(Boolean);
+
+// Tokens of an account specification that cannot be understood
+export const invalidAccountTokens = (spec: string): string[] => {
+  return splitTokens(spec).filter(token => !parseToken(token));
+};
+
+export interface CategoryMatcher {
+  name: string;
+  matches: (compte: unknown) => boolean;
+}
+
+// The class of an account comes from the chart of accounts when loaded, otherwise from its first digit
+export const buildCategoryMatchers = (
+  categories: SummaryCategoryDefinition[],
+  accounts: ChartAccount[] = []
+): CategoryMatcher[] => {
+  const classOf = (account: string): number => findAccount(account, accounts)?.accountClass ?? parseInt(account[0], 10);
+
+  return categories.map(category => {
+    const matchers = splitTokens(category.accounts).map(parseToken).filter((m): m is AccountMatcher => !!m);
+    return {
+      name: category.name,
+      matches: (compte: unknown) => {
+        const account = String(compte ?? '').trim();
+        if (!/^\d+$/.test(account)) return false;
+        const accountClass = classOf(account);
+        return matchers.some(matcher => matcher(account, accountClass));
+      }
+    };
+  });
+};
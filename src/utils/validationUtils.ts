@@ -0,0 +1,177 @@
+import {
+  ExcelRow,
+  DebitCreditMode,
+  BASE_CURRENCY,
+  collectiveGroupColumn,
+  creditColumn,
+  currencyColumn,
+  exchangeRateColumn,
+  foreignAmountColumn,
+  debitColumn,
+  debitCreditColumn,
+  parseDebitCreditIndicator
+} from './excelUtils';
+import { findVatCode, loadVatCodes, VatCodeDefinition } from './vatUtils';
+import { CostCentre, COST_CENTRE_LIST_LEVEL, costCentreColumns } from './costCentreUtils';
+import { ChartAccount } from './accountUtils';
+import { parseDate } from './dateUtils';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  rowIndex: number; // 0-based index in the imported data, the Excel line is rowIndex + 2
+  column: string;
+  severity: ValidationSeverity;
+  message: string;
+}
+
+export interface ValidationOptions {
+  debitCreditMode?: DebitCreditMode;
+  vatCodes?: VatCodeDefinition[];
+  costCentres?: CostCentre[]; // KST list, empty: cost centres are only checked for format
+  accounts?: ChartAccount[]; // empty: accounts are only checked for format
+}
+
+export interface ValidationReport {
+  issues: ValidationIssue[];
+  errorCount: number;
+  warningCount: number;
+  rowsWithIssues: number[];
+}
+
+const isEmpty = (value: unknown): boolean => value === undefined || value === null || String(value).trim() === "";
+
+const isNumeric = (value: unknown): boolean => {
+  if (typeof value === 'number') return !isNaN(value);
+  return /^-?\d+(\.\d+)?$/.test(String(value).trim());
+};
+
+// Check every cell of the required columns and collect errors (blocking) and warnings
+export const validateRows = (jsonData: ExcelRow[], options: ValidationOptions = {}): ValidationReport => {
+  const debitCreditMode = options.debitCreditMode || 'sign';
+  const vatCodes = options.vatCodes || loadVatCodes();
+  const knownCostCentres = new Set((options.costCentres || []).map(costCentre => costCentre.number));
+  const knownAccounts = new Set((options.accounts || []).map(account => account.number));
+  const isUnknownAccount = (value: unknown) => knownAccounts.size > 0 && !knownAccounts.has(String(value).trim());
+  const issues: ValidationIssue[] = [];
+
+  jsonData.forEach((row, rowIndex) => {
+    const add = (column: string, severity: ValidationSeverity, message: string) => {
+      issues.push({ rowIndex, column, severity, message });
+    };
+
+    const date = row["Date"];
+    if (isEmpty(date)) {
+      add("Date", 'error', "Date manquante");
+    } else {
+      try {
+        parseDate(date);
+      } catch (err) {
+        add("Date", 'error', (err as Error).message);
+      }
+    }
+
+    const compte = row["Compte"];
+    if (isEmpty(compte)) {
+      add("Compte", 'error', "Compte manquant");
+    } else if (!isNumeric(compte)) {
+      add("Compte", 'error', `Compte « ${compte} » non numérique`);
+    } else if (isUnknownAccount(compte)) {
+      add("Compte", 'error', `Compte ${compte} absent du plan comptable`);
+    }
+
+    // Lines of a collective entry usually carry a single account
+    const contrepartie = row["Contrepartie"];
+    if (isEmpty(contrepartie)) {
+      if (isEmpty(row[collectiveGroupColumn])) add("Contrepartie", 'warning', "Contrepartie vide");
+    } else if (!isNumeric(contrepartie)) {
+      add("Contrepartie", 'error', `Contrepartie « ${contrepartie} » non numérique`);
+    } else if (isUnknownAccount(contrepartie)) {
+      add("Contrepartie", 'error', `Contrepartie ${contrepartie} absente du plan comptable`);
+    }
+
+    const texte = row["Texte1"];
+    if (isEmpty(texte)) {
+      add("Texte1", 'warning', "Libellé vide");
+    } else if (String(texte).length > 80) {
+      add("Texte1", 'warning', "Libellé tronqué à 80 caractères");
+    }
+
+    if (debitCreditMode === 'split') {
+      const debit = row[debitColumn];
+      const credit = row[creditColumn];
+      if (!isEmpty(debit) && !isNumeric(debit)) {
+        add(debitColumn, 'error', `Débit « ${debit} » non numérique`);
+      } else if (!isEmpty(credit) && !isNumeric(credit)) {
+        add(creditColumn, 'error', `Crédit « ${credit} » non numérique`);
+      } else if (!Number(debit || 0) && !Number(credit || 0)) {
+        // A foreign amount alone is booked on the side of its sign
+        if (isEmpty(row[foreignAmountColumn])) add(debitColumn, 'warning', "Ni débit ni crédit");
+      } else if (Number(debit || 0) && Number(credit || 0)) {
+        add(debitColumn, 'warning', "Débit et crédit sur la même ligne, le solde est comptabilisé");
+      }
+    } else {
+      const montant = row["Montant"];
+      // Without a CHF amount, Montant ME and Cours are enough to compute it
+      const derivedFromForeign = !isEmpty(row[foreignAmountColumn]) && !isEmpty(row[exchangeRateColumn]);
+      if (isEmpty(montant)) {
+        if (!derivedFromForeign) add("Montant", 'error', "Montant manquant");
+      } else if (!isNumeric(montant)) {
+        add("Montant", 'error', `Montant « ${montant} » non numérique`);
+      } else if (Number(montant) === 0) {
+        add("Montant", 'warning', "Montant nul");
+      }
+    }
+
+    if (debitCreditMode === 'column' && !parseDebitCreditIndicator(row[debitCreditColumn])) {
+      add(debitCreditColumn, 'error', `Sens « ${row[debitCreditColumn] ?? ''} » non reconnu (D ou C attendu)`);
+    }
+
+    const devise = row[currencyColumn];
+    const withoutChfAmount = debitCreditMode === 'split'
+      ? isEmpty(row[debitColumn]) && isEmpty(row[creditColumn])
+      : isEmpty(row["Montant"]);
+    if (!isEmpty(devise)) {
+      const iso = String(devise).trim().toUpperCase();
+      const cours = row[exchangeRateColumn];
+      const montantME = row[foreignAmountColumn];
+      if (!/^[A-Z]{3}$/.test(iso)) {
+        add(currencyColumn, 'error', `Devise « ${devise} » invalide (code ISO à 3 lettres attendu)`);
+      } else if (iso !== BASE_CURRENCY) {
+        if (!isEmpty(cours) && !isNumeric(cours)) {
+          add(exchangeRateColumn, 'error', `Cours « ${cours} » non numérique`);
+        }
+        if (!isEmpty(montantME) && !isNumeric(montantME)) {
+          add(foreignAmountColumn, 'error', `Montant ME « ${montantME} » non numérique`);
+        } else if (isEmpty(montantME)) {
+          add(foreignAmountColumn, 'error', `Montant en ${iso} manquant`);
+        } else if (isEmpty(cours) && withoutChfAmount) {
+          add(exchangeRateColumn, 'error', `Cours ou montant CHF requis pour une écriture en ${iso}`);
+        }
+      }
+    }
+
+    const codeTVA = row["Code TVA"];
+    if (!isEmpty(codeTVA) && !findVatCode(codeTVA, vatCodes)) {
+      add("Code TVA", 'error', `Code TVA ${codeTVA} inconnu`);
+    }
+
+    costCentreColumns.forEach(({ input, level }) => {
+      const value = row[input];
+      if (isEmpty(value) || String(value).trim() === '0') return;
+      const costCentre = String(value).trim();
+      if (!/^\d+$/.test(costCentre)) {
+        add(input, 'error', `Centre de coût « ${costCentre} » non numérique`);
+      } else if (level === COST_CENTRE_LIST_LEVEL && knownCostCentres.size > 0 && !knownCostCentres.has(costCentre)) {
+        add(input, 'error', `Centre de coût ${costCentre} absent de la liste chargée`);
+      }
+    });
+  });
+
+  return {
+    issues,
+    errorCount: issues.filter(issue => issue.severity === 'error').length,
+    warningCount: issues.filter(issue => issue.severity === 'warning').length,
+    rowsWithIssues: Array.from(new Set(issues.map(issue => issue.rowIndex)))
+  };
+};
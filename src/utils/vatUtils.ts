@@ -0,0 +1,156 @@
+// A rate is valid from validFrom to validTo inclusive (ISO yyyy-mm-dd), an empty bound is open-ended
+export interface VatRatePeriod {
+  validFrom: string;
+  validTo: string;
+  rate: number;
+}
+
+// input: impôt préalable (Type TVA 2), output: TVA due sur le chiffre d'affaires (Type TVA 1)
+export type VatKind = 'input' | 'output';
+
+export interface VatCodeDefinition {
+  code: string;
+  description: string;
+  kind?: VatKind;
+  account?: string; // overrides the VAT account of the settings for this code
+  periods: VatRatePeriod[];
+}
+
+export type VatSettlementMethod = 'effective' | 'netTaxRate';
+
+export interface VatSettings {
+  settlementMethod: VatSettlementMethod;
+  taxMethod: number; // "Méthode TVA" of the F11 file
+  inputTaxAccount: string;
+  outputTaxAccount: string;
+  netTaxRate: number; // approved net tax rate in %, used for output tax under the net tax rate method
+}
+
+export const DEFAULT_VAT_SETTINGS: VatSettings = {
+  settlementMethod: 'effective',
+  taxMethod: 2,
+  inputTaxAccount: '1172',
+  outputTaxAccount: '2200',
+  netTaxRate: 0
+};
+
+const VAT_CODES_STORAGE_KEY = 'exceltoabacus.vatCodes';
+
+// Swiss rate history: 7.7 / 2.5 / 3.7 from 01.01.2018 to 31.12.2023, 8.1 / 2.6 / 3.8 from 01.01.2024.
+// Earlier dates are outside every period and reported, the older rates are not recorded.
+const standardRate = (): VatRatePeriod[] => [
+  { validFrom: '2018-01-01', validTo: '2023-12-31', rate: 7.7 },
+  { validFrom: '2024-01-01', validTo: '', rate: 8.1 }
+];
+
+const reducedRate = (): VatRatePeriod[] => [
+  { validFrom: '2018-01-01', validTo: '2023-12-31', rate: 2.5 },
+  { validFrom: '2024-01-01', validTo: '', rate: 2.6 }
+];
+
+const accommodationRate = (): VatRatePeriod[] => [
+  { validFrom: '2018-01-01', validTo: '2023-12-31', rate: 3.7 },
+  { validFrom: '2024-01-01', validTo: '', rate: 3.8 }
+];
+
+const fixedRate = (rate: number): VatRatePeriod[] => [
+  { validFrom: '', validTo: '', rate }
+];
+
+export const DEFAULT_VAT_CODES: VatCodeDefinition[] = [
+  { code: '111', description: 'Impôt préalable matériel/prestations – taux normal', kind: 'input', periods: standardRate() },
+  { code: '112', description: 'Impôt préalable matériel/prestations – taux réduit', kind: 'input', periods: reducedRate() },
+  { code: '115', description: 'Impôt préalable matériel/prestations – 100 % TVA', kind: 'input', periods: fixedRate(100) },
+  { code: '116', description: 'Impôt préalable matériel/prestations – exonéré', kind: 'input', periods: fixedRate(0) },
+  { code: '121', description: 'Impôt préalable investissements/charges – taux normal', kind: 'input', periods: standardRate() },
+  { code: '122', description: 'Impôt préalable investissements/charges – taux réduit', kind: 'input', periods: reducedRate() },
+  { code: '125', description: 'Impôt préalable investissements/charges – 100 % TVA', kind: 'input', periods: fixedRate(100) },
+  { code: '126', description: 'Impôt préalable investissements/charges – exonéré', kind: 'input', periods: fixedRate(0) },
+  { code: '131', description: 'Impôt préalable – taux normal', kind: 'input', periods: standardRate() },
+  { code: '132', description: 'Impôt préalable – taux réduit', kind: 'input', periods: reducedRate() },
+  { code: '136', description: 'Impôt préalable – exonéré', kind: 'input', periods: fixedRate(0) },
+  { code: '141', description: 'Impôt préalable charges – taux normal', kind: 'input', periods: standardRate() },
+  { code: '142', description: 'Impôt préalable charges – taux réduit', kind: 'input', periods: reducedRate() },
+  { code: '144', description: 'Impôt préalable charges – hébergement', kind: 'input', periods: accommodationRate() },
+  { code: '200', description: 'Hors champ TVA', kind: 'output', periods: fixedRate(0) },
+  { code: '311', description: 'TVA due – taux normal', kind: 'output', periods: standardRate() },
+  { code: '312', description: 'TVA due – taux réduit', kind: 'output', periods: reducedRate() },
+  { code: '400', description: 'Chiffre d\'affaires exonéré', kind: 'output', periods: fixedRate(0) },
+  { code: '401', description: 'Chiffre d\'affaires exonéré (exportations)', kind: 'output', periods: fixedRate(0) },
+  { code: '511', description: 'TVA due sur ventes – taux normal', kind: 'output', periods: standardRate() },
+  { code: '512', description: 'TVA due sur ventes – taux réduit', kind: 'output', periods: reducedRate() },
+  { code: '516', description: 'TVA due sur ventes – 100 % TVA', kind: 'output', periods: fixedRate(100) }
+];
+
+const todayIso = (): string => new Date().toISOString().split('T')[0];
+
+// Load the VAT code registry from the browser, falling back to the defaults
+export const loadVatCodes = (): VatCodeDefinition[] => {
+  try {
+    const stored = localStorage.getItem(VAT_CODES_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed)) return parsed as VatCodeDefinition[];
+    }
+  } catch (error) {
+    console.error('Registre des codes TVA illisible, utilisation des valeurs par défaut:', error);
+  }
+  return DEFAULT_VAT_CODES;
+};
+
+export const saveVatCodes = (codes: VatCodeDefinition[]): void => {
+  localStorage.setItem(VAT_CODES_STORAGE_KEY, JSON.stringify(codes));
+};
+
+// Registries saved before codes had a kind: 1xx codes are input tax, the others output tax
+export const getVatKind = (definition: VatCodeDefinition): VatKind => {
+  return definition.kind || (definition.code.startsWith('1') ? 'input' : 'output');
+};
+
+// VAT account credited or debited for a code: the code's own account, else the settings account for its kind
+export const getVatAccount = (definition: VatCodeDefinition, settings: VatSettings): string => {
+  if (definition.account) return definition.account;
+  return getVatKind(definition) === 'output' ? settings.outputTaxAccount : settings.inputTaxAccount;
+};
+
+export const findVatCode = (
+  code: string | number,
+  codes: VatCodeDefinition[] = loadVatCodes()
+): VatCodeDefinition | undefined => {
+  const key = String(code).trim();
+  return codes.find(definition => definition.code === key);
+};
+
+// Find the period of a code that covers the given ISO date (today when no date is given)
+export const findVatPeriod = (
+  definition: VatCodeDefinition,
+  isoDate?: string
+): VatRatePeriod | undefined => {
+  const date = isoDate || todayIso();
+  return definition.periods.find(period =>
+    (!period.validFrom || period.validFrom <= date) && (!period.validTo || date <= period.validTo)
+  );
+};
+
+// First and last day a code is valid, empty when open-ended on that side
+export const getVatCodeValidity = (definition: VatCodeDefinition): { validFrom: string; validTo: string } => {
+  const { periods } = definition;
+  const openStart = periods.length === 0 || periods.some(period => !period.validFrom);
+  const openEnd = periods.length === 0 || periods.some(period => !period.validTo);
+  return {
+    validFrom: openStart ? '' : periods.map(period => period.validFrom).sort()[0],
+    validTo: openEnd ? '' : periods.map(period => period.validTo).sort()[periods.length - 1]
+  };
+};
+
+// Resolve the VAT rate in percent valid for a code on a date, 0 for unknown codes or dates outside every period
+export const getVatRate = (
+  code: string | number,
+  isoDate?: string,
+  codes: VatCodeDefinition[] = loadVatCodes()
+): number => {
+  if (code === undefined || code === null || code === '') return 0;
+  const definition = findVatCode(code, codes);
+  if (!definition) return 0;
+  return findVatPeriod(definition, isoDate)?.rate ?? 0;
+};